@@ -0,0 +1,115 @@
+"use client";
+
+import React, { PointerEvent, useRef } from "react";
+import styles from "./page.module.css";
+import { CropSettings, UploadItem } from "../lib/types";
+import { DEFAULT_CROP } from "../lib/constants";
+import { coverRect } from "../lib/layout";
+import { editedSize } from "../lib/edits";
+import { EditedImage } from "./EditedImage";
+
+interface Props {
+  upload: UploadItem;
+  /** Width/height ratio of the cell the image is placed in. */
+  cellAspect: number;
+  onChange: (crop: CropSettings) => void;
+  onClose: () => void;
+}
+
+const FRAME_WIDTH = 100; // arbitrary units, the frame is sized with CSS
+
+export const CropEditor: React.FC<Props> = ({
+  upload,
+  cellAspect,
+  onChange,
+  onClose,
+}) => {
+  const crop = upload.crop ?? DEFAULT_CROP;
+  const frame = { x: 0, y: 0, width: FRAME_WIDTH, height: FRAME_WIDTH / cellAspect };
+  const size = editedSize(upload.width, upload.height, upload.edits);
+  const image = coverRect(frame, size.width, size.height, crop);
+  const drag = useRef<{ x: number; y: number; crop: CropSettings } | null>(null);
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!drag.current) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const unitsPerPixel = FRAME_WIDTH / bounds.width;
+    // Dragging the picture right moves the focal point left.
+    const dx = ((event.clientX - drag.current.x) * unitsPerPixel) / image.width;
+    const dy = ((event.clientY - drag.current.y) * unitsPerPixel) / image.height;
+    onChange({
+      ...drag.current.crop,
+      x: clampUnit(drag.current.crop.x - dx),
+      y: clampUnit(drag.current.crop.y - dy),
+    });
+  };
+
+  return (
+    <div className={styles.dialogBackdrop} onClick={onClose}>
+      <div
+        className={styles.dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Ritaglio di ${upload.name}`}
+        onClick={(event) => event.stopPropagation()}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") onClose();
+        }}
+      >
+        <h3>Ritaglio: {upload.name}</h3>
+        <div
+          className={styles.cropFrame}
+          style={{ aspectRatio: `${cellAspect}` }}
+          onPointerDown={(event) => {
+            event.currentTarget.setPointerCapture(event.pointerId);
+            drag.current = { x: event.clientX, y: event.clientY, crop };
+          }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => {
+            drag.current = null;
+          }}
+        >
+          <EditedImage
+            src={upload.previewUrl}
+            alt=""
+            width={upload.width}
+            height={upload.height}
+            edits={upload.edits}
+            style={{
+              left: `${(image.x / frame.width) * 100}%`,
+              bottom: `${(image.y / frame.height) * 100}%`,
+              width: `${(image.width / frame.width) * 100}%`,
+              height: `${(image.height / frame.height) * 100}%`,
+            }}
+          />
+        </div>
+        <div className={styles.control}>
+          <label htmlFor="cropZoom">Zoom ({Math.round(crop.zoom * 100)}%)</label>
+          <input
+            id="cropZoom"
+            type="range"
+            min={1}
+            max={4}
+            step={0.05}
+            value={crop.zoom}
+            onChange={(event) => onChange({ ...crop, zoom: Number(event.target.value) })} />
+          <small>Trascina l&apos;immagine per scegliere il punto da tenere al centro.</small>
+        </div>
+        <div className={styles.actions}>
+          <button
+            className={styles.ghostButton}
+            type="button"
+            onClick={() => onChange(DEFAULT_CROP)}
+          >
+            Centra
+          </button>
+          <button className={styles.primaryButton} type="button" onClick={onClose} autoFocus>
+            Fatto
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const clampUnit = (value: number) => Math.min(1, Math.max(0, value));
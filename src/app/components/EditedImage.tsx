@@ -0,0 +1,54 @@
+"use client";
+
+import React, { CSSProperties } from "react";
+import styles from "./page.module.css";
+import { ImageEdits } from "../lib/types";
+import { editFilter } from "../lib/edits";
+
+interface Props {
+  src: string;
+  alt: string;
+  /** Upright size of the source, before the edits. */
+  width: number;
+  height: number;
+  edits?: ImageEdits;
+  /** Places the edited image; it is absolutely positioned. */
+  style?: CSSProperties;
+}
+
+/**
+ * The source with its edits shown by CSS: the crop box fills the element
+ * and the turned, flipped picture overflows it.
+ */
+export const EditedImage: React.FC<Props> = ({ src, alt, width, height, edits, style }) => {
+  if (!edits) return <img src={src} alt={alt} loading="lazy" draggable={false} style={style} />;
+  const { cropBox, quarterTurns } = edits;
+  const turned = quarterTurns % 2 === 1;
+  return (
+    <div className={styles.editedImage} style={style}>
+      <div
+        style={{
+          left: `${(-cropBox.x / cropBox.width) * 100}%`,
+          top: `${(-cropBox.y / cropBox.height) * 100}%`,
+          width: `${100 / cropBox.width}%`,
+          height: `${100 / cropBox.height}%`,
+        }}
+      >
+        <img
+          src={src}
+          alt={alt}
+          loading="lazy"
+          draggable={false}
+          style={{
+            width: turned ? `${(width / height) * 100}%` : "100%",
+            height: turned ? `${(height / width) * 100}%` : "100%",
+            transform:
+              `translate(-50%, -50%) scale(${edits.flipHorizontal ? -1 : 1}, ${edits.flipVertical ? -1 : 1}) ` +
+              `rotate(${quarterTurns * 90}deg)`,
+            filter: editFilter(edits),
+          }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,26 +1,55 @@
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
 import styles from "./page.module.css";
-import { UploadItem } from "../lib/types";
-import { formatMB } from "../lib/units";
+import { PdfSettings, UploadItem } from "../lib/types";
+import { SORT_MODES, SortMode } from "../lib/sort";
+import { captionFor } from "../lib/captions";
+import { PagePreview } from "./PagePreview";
+import { DRAG_MIME, UploadThumb } from "./UploadThumb";
+import { ImageEditor } from "./ImageEditor";
 
 interface Props {
   uploads: UploadItem[];
+  settings: PdfSettings;
+  mergePdfs: File[];
   gridPreviewColumns: number;
   removeImage: (id: string) => void;
+  moveImage: (id: string, toIndex: number) => void;
+  updateImage: (id: string, patch: Partial<UploadItem>) => void;
+  retryImage: (id: string) => Promise<void>;
+  removeFailed: () => void;
+  sortImages: (mode: SortMode) => void;
 }
 
+/** Images from `start` up to the next one that opens a section. */
+const sectionSize = (uploads: UploadItem[], start: number) => {
+  const next = uploads.findIndex((upload, index) => index > start && upload.section !== undefined);
+  return (next < 0 ? uploads.length : next) - start;
+};
+
 export const GridPreview: React.FC<Props> = ({
   uploads,
+  settings,
+  mergePdfs,
   gridPreviewColumns,
   removeImage,
-}) =>
-  <section className={styles.card}>
+  moveImage,
+  updateImage,
+  retryImage,
+  removeFailed,
+  sortImages,
+}) => {
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editing = editingId && uploads.find((upload) => upload.id === editingId);
+  const failed = uploads.filter((upload) => upload.error);
+
+  return <section className={styles.card}>
     <div className={styles.previewHeader}>
       <h2>Cosa finirà nel PDF</h2>
       <p className={styles.previewHint}>
-        Anteprima della griglia (non usa tutti i parametri impostati sopra)
+        Anteprima delle pagine in scala, con margini e interruzioni di pagina come nel PDF
       </p>
     </div>
     {uploads.length === 0 ? (
@@ -28,30 +57,118 @@ export const GridPreview: React.FC<Props> = ({
         <p>Aggiungi immagini. Le anteprime appariranno qui.</p>
       </div>
     ) : (
-      <div
-        className={styles.previewGrid}
-        style={{
-          gridTemplateColumns: `repeat(${gridPreviewColumns}, minmax(0, 1fr))`,
-        }}
-      >
-        {uploads.map((upload) => (
-          <div key={upload.id} className={styles.thumb}>
-            <img src={upload.previewUrl} alt={upload.name} loading="lazy" />
-            <div className={styles.thumbMeta}>
-              <div className={styles.thumbText}>
-                <strong>{upload.name}</strong>
-                <span>{formatMB(upload.size)}</span>
-              </div>
+      <>
+        {editing && (
+          <ImageEditor
+            upload={editing}
+            onChange={(edits) => updateImage(editing.id, { edits })}
+            onClose={() => setEditingId(null)} />
+        )}
+        <PagePreview
+          uploads={uploads}
+          settings={settings}
+          mergePdfs={mergePdfs}
+          updateImage={updateImage} />
+        <div className={styles.previewToolbar}>
+          <h3 className={styles.previewSubtitle}>Immagini</h3>
+          <div className={styles.sortButtons}>
+            <span>Ordina per:</span>
+            {Object.entries(SORT_MODES).map(([mode, label]) => (
               <button
-                className={styles.remove}
+                key={mode}
+                className={styles.ghostButton}
                 type="button"
-                onClick={() => removeImage(upload.id)}
+                onClick={() => sortImages(mode as SortMode)}
               >
-                Rimuovi
+                {label}
               </button>
-            </div>
+            ))}
           </div>
-        ))}
-      </div>
+        </div>
+        {failed.length > 0 && (
+          <div className={styles.failureBar}>
+            <span>
+              {failed.length === 1
+                ? "1 immagine non è entrata nel PDF."
+                : `${failed.length} immagini non sono entrate nel PDF.`}
+            </span>
+            <button
+              className={styles.ghostButton}
+              type="button"
+              onClick={() => failed.forEach((upload) => retryImage(upload.id))}
+            >
+              Riprova tutte
+            </button>
+            <button className={styles.ghostButton} type="button" onClick={removeFailed}>
+              Rimuovi non riuscite
+            </button>
+          </div>
+        )}
+        <p className={styles.previewHint}>
+          Trascina le miniature o usa le frecce per cambiare l&apos;ordine nel PDF. &ldquo;Nuova sezione&rdquo;
+          raggruppa un&apos;immagine e le successive sotto un titolo, &ldquo;Nuova pagina&rdquo; le manda a capo pagina.
+        </p>
+        <div
+          className={styles.previewGrid}
+          style={{
+            gridTemplateColumns: `repeat(${gridPreviewColumns}, minmax(0, 1fr))`,
+          }}
+          onDragLeave={(event) => {
+            if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+              setDropTargetId(null);
+            }
+          }}
+        >
+          {uploads.map((upload, index) => (
+            <React.Fragment key={upload.id}>
+              {upload.section !== undefined && (
+                <div className={styles.sectionHeader}>
+                  <input
+                    type="text"
+                    aria-label="Titolo della sezione"
+                    placeholder="Titolo della sezione"
+                    value={upload.section}
+                    onChange={(event) => updateImage(upload.id, { section: event.target.value })} />
+                  <span>{sectionSize(uploads, index)} immagini</span>
+                  <button
+                    className={styles.ghostButton}
+                    type="button"
+                    onClick={() => updateImage(upload.id, { section: undefined })}
+                  >
+                    Unisci alla precedente
+                  </button>
+                </div>
+              )}
+              <UploadThumb
+                upload={upload}
+                index={index}
+                count={uploads.length}
+                isDropTarget={dropTargetId === upload.id}
+                removeImage={removeImage}
+                moveImage={moveImage}
+                updateImage={updateImage}
+                retryImage={retryImage}
+                editImage={setEditingId}
+                canSpan={settings.layoutMode === "grid"}
+                autoCaption={captionFor({ ...upload, caption: undefined }, index, settings)}
+                onDragOver={(event) => {
+                  if (!event.dataTransfer.types.includes(DRAG_MIME)) return;
+                  event.preventDefault();
+                  event.dataTransfer.dropEffect = "move";
+                  setDropTargetId(upload.id);
+                }}
+                onDrop={(event) => {
+                  const id = event.dataTransfer.getData(DRAG_MIME);
+                  setDropTargetId(null);
+                  if (!id) return;
+                  event.preventDefault();
+                  moveImage(id, index);
+                }}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+      </>
     )}
   </section>;
+};
@@ -0,0 +1,184 @@
+"use client";
+
+import React from "react";
+import styles from "./page.module.css";
+import { CropBox, ImageEdits, UploadItem } from "../lib/types";
+import { editedSize, hasEdits, NO_EDITS } from "../lib/edits";
+import { EditedImage } from "./EditedImage";
+
+interface Props {
+  upload: UploadItem;
+  onChange: (edits: ImageEdits | undefined) => void;
+  onClose: () => void;
+}
+
+/** Most of a side each crop slider can take away, in percent. */
+const MAX_TRIM = 45;
+
+const TRIMS: { key: "left" | "right" | "top" | "bottom"; label: string }[] = [
+  { key: "left", label: "Taglia a sinistra" },
+  { key: "right", label: "Taglia a destra" },
+  { key: "top", label: "Taglia sopra" },
+  { key: "bottom", label: "Taglia sotto" },
+];
+
+const trimsOf = ({ x, y, width, height }: CropBox) => ({
+  left: x,
+  right: 1 - x - width,
+  top: y,
+  bottom: 1 - y - height,
+});
+
+export const ImageEditor: React.FC<Props> = ({ upload, onChange, onClose }) => {
+  const edits = upload.edits ?? NO_EDITS;
+  const size = editedSize(upload.width, upload.height, edits);
+  const trims = trimsOf(edits.cropBox);
+  // Unchanged edits are dropped so the image can pass through untouched.
+  const update = (patch: Partial<ImageEdits>) => {
+    const next = { ...edits, ...patch };
+    onChange(hasEdits(next) ? next : undefined);
+  };
+  // A quarter turn or a flip moves the kept area along with the picture.
+  // The flip is applied after the turn, so a single flip reverses its sense.
+  const turn = (quarters: 1 | 3) => {
+    const { x, y, width, height } = edits.cropBox;
+    const mirrored = edits.flipHorizontal !== edits.flipVertical;
+    update({
+      quarterTurns: (edits.quarterTurns + (mirrored ? 4 - quarters : quarters)) % 4,
+      cropBox: quarters === 1
+        ? { x: 1 - y - height, y: x, width: height, height: width }
+        : { x: y, y: 1 - x - width, width: height, height: width },
+    });
+  };
+  const setTrim = (key: keyof typeof trims, percent: number) => {
+    const next = { ...trims, [key]: percent / 100 };
+    update({
+      cropBox: {
+        x: next.left,
+        y: next.top,
+        width: 1 - next.left - next.right,
+        height: 1 - next.top - next.bottom,
+      },
+    });
+  };
+
+  return (
+    <div className={styles.dialogBackdrop} onClick={onClose}>
+      <div
+        className={styles.dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Modifica di ${upload.name}`}
+        onClick={(event) => event.stopPropagation()}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") onClose();
+        }}
+      >
+        <h3>Modifica: {upload.name}</h3>
+        <div
+          className={styles.editFrame}
+          style={{
+            aspectRatio: `${size.width} / ${size.height}`,
+            // Tall pictures get narrower instead of pushing the controls away.
+            width: `min(100%, ${(50 * size.width) / size.height}vh)`,
+          }}
+        >
+          <EditedImage
+            src={upload.previewUrl}
+            alt=""
+            width={upload.width}
+            height={upload.height}
+            edits={upload.edits}
+            style={{ inset: 0, width: "100%", height: "100%" }} />
+        </div>
+        <div className={styles.editButtons}>
+          <button className={styles.ghostButton} type="button" onClick={() => turn(3)}>
+            ↺ Ruota a sinistra
+          </button>
+          <button className={styles.ghostButton} type="button" onClick={() => turn(1)}>
+            ↻ Ruota a destra
+          </button>
+          <button
+            className={styles.ghostButton}
+            type="button"
+            aria-pressed={edits.flipHorizontal}
+            onClick={() => update({
+              flipHorizontal: !edits.flipHorizontal,
+              cropBox: { ...edits.cropBox, x: trims.right },
+            })}
+          >
+            ⇆ Specchia
+          </button>
+          <button
+            className={styles.ghostButton}
+            type="button"
+            aria-pressed={edits.flipVertical}
+            onClick={() => update({
+              flipVertical: !edits.flipVertical,
+              cropBox: { ...edits.cropBox, y: trims.bottom },
+            })}
+          >
+            ⇅ Capovolgi
+          </button>
+        </div>
+        <div className={styles.editControls}>
+          {TRIMS.map(({ key, label }) => (
+            <div key={key} className={styles.control}>
+              <label htmlFor={`trim-${key}`}>{label} ({Math.round(trims[key] * 100)}%)</label>
+              <input
+                id={`trim-${key}`}
+                type="range"
+                min={0}
+                max={MAX_TRIM}
+                value={Math.round(trims[key] * 100)}
+                onChange={(event) => setTrim(key, Number(event.target.value))} />
+            </div>
+          ))}
+          <div className={styles.control}>
+            <label htmlFor="editBrightness">Luminosità ({edits.brightness}%)</label>
+            <input
+              id="editBrightness"
+              type="range"
+              min={50}
+              max={150}
+              value={edits.brightness}
+              onChange={(event) => update({ brightness: Number(event.target.value) })} />
+          </div>
+          <div className={styles.control}>
+            <label htmlFor="editContrast">Contrasto ({edits.contrast}%)</label>
+            <input
+              id="editContrast"
+              type="range"
+              min={50}
+              max={150}
+              value={edits.contrast}
+              onChange={(event) => update({ contrast: Number(event.target.value) })} />
+          </div>
+          <div className={styles.control}>
+            <label className={styles.checkboxLabel}>
+              <input
+                type="checkbox"
+                checked={edits.grayscale}
+                onChange={(event) => update({ grayscale: event.target.checked })} />
+              Bianco e nero
+            </label>
+          </div>
+        </div>
+        <small>L&apos;originale resta intatto: le modifiche si applicano solo nel PDF.</small>
+        <div className={styles.actions}>
+          <button
+            className={styles.ghostButton}
+            type="button"
+            disabled={!upload.edits}
+            onClick={() => onChange(undefined)}
+          >
+            Ripristina originale
+          </button>
+          <button className={styles.primaryButton} type="button" onClick={onClose} autoFocus>
+            Fatto
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+"use client";
+
+import React from "react";
+import { LengthUnit } from "../lib/types";
+import { fromMm, toMm } from "../lib/units";
+
+interface Props {
+  id: string;
+  /** Value, minimum and maximum are in mm whatever the displayed unit. */
+  value: number;
+  min: number;
+  max: number;
+  unit: LengthUnit;
+  onChange: (mm: number) => void;
+}
+
+/** Number input showing a length in mm or inches and reporting it in mm. */
+export const LengthInput: React.FC<Props> = ({
+  id,
+  value,
+  min,
+  max,
+  unit,
+  onChange,
+}) => {
+  const decimals = unit === "in" ? 2 : 0;
+  const round = (mm: number) => Number(fromMm(mm, unit).toFixed(decimals));
+  return (
+    <input
+      id={id}
+      type="number"
+      min={round(min)}
+      max={round(max)}
+      step={unit === "in" ? 0.01 : 1}
+      value={round(value)}
+      onChange={(event) =>
+        onChange(Math.min(max, Math.max(min, toMm(Number(event.target.value), unit))))} />
+  );
+};
@@ -0,0 +1,362 @@
+"use client";
+
+import React, { CSSProperties, useEffect, useMemo, useRef, useState } from "react";
+import styles from "./page.module.css";
+import { PdfSettings, UploadItem } from "../lib/types";
+import {
+  computeLayout,
+  OVERLAY_BACKGROUND_OPACITY,
+  PageLayout,
+  PlacedMark,
+  PlacedText,
+  Rect,
+  toLayoutImages,
+  WATERMARK_CAP_HEIGHT,
+  watermarkMarks,
+} from "../lib/layout";
+import { approximateMeasure, TextMeasurer } from "../lib/text";
+import { CUSTOM_FONT_FACE, PREVIEW_FONT_STACKS } from "../lib/fonts";
+import { effectiveDpi } from "../lib/budget";
+import { readImageSize } from "../lib/images";
+import { effectiveEdits } from "../lib/edits";
+import { loadMergeSource, mergedNumbering } from "../lib/merge";
+import { EditedImage } from "./EditedImage";
+import { CropEditor } from "./CropEditor";
+
+interface Props {
+  uploads: UploadItem[];
+  settings: PdfSettings;
+  mergePdfs: File[];
+  updateImage: (id: string, patch: Partial<UploadItem>) => void;
+}
+
+export const PagePreview: React.FC<Props> = ({ uploads, settings, mergePdfs, updateImage }) => {
+  const [cropping, setCropping] = useState<{ id: string; cellAspect: number } | null>(null);
+  const croppingUpload = cropping && uploads.find((upload) => upload.id === cropping.id);
+  const sheetRefs = useRef<(HTMLElement | null)[]>([]);
+  const [mergePageCount, setMergePageCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMergeSource(mergePdfs)
+      .then(({ pageCount }) => {
+        if (!cancelled) setMergePageCount(pageCount);
+      })
+      .catch((error) => console.error(error));
+    return () => {
+      cancelled = true;
+    };
+  }, [mergePdfs]);
+
+  const layout = useMemo(() => {
+    const { layoutSettings, trailingPages } = mergedNumbering(settings, mergePageCount);
+    return computeLayout(
+      layoutSettings,
+      toLayoutImages(uploads, settings),
+      measureInBrowser,
+      trailingPages,
+    );
+  }, [settings, uploads, mergePageCount]);
+
+  const logoUrl = useMemo(
+    () => (settings.logo ? URL.createObjectURL(settings.logo) : undefined),
+    [settings.logo],
+  );
+
+  useEffect(
+    () => () => {
+      if (logoUrl) URL.revokeObjectURL(logoUrl);
+    },
+    [logoUrl],
+  );
+
+  const watermarkFile = settings.watermark === "image"
+    ? settings.watermarkImage ?? settings.logo
+    : undefined;
+  const watermarkUrl = useMemo(
+    () => (watermarkFile ? URL.createObjectURL(watermarkFile) : undefined),
+    [watermarkFile],
+  );
+  const [watermarkImageSize, setWatermarkImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    if (!watermarkFile) return;
+    let cancelled = false;
+    readImageSize(watermarkFile)
+      .then((size) => {
+        if (!cancelled) setWatermarkImageSize(size);
+      })
+      .catch((error) => console.error(error));
+    return () => {
+      cancelled = true;
+      if (watermarkUrl) URL.revokeObjectURL(watermarkUrl);
+    };
+  }, [watermarkFile, watermarkUrl]);
+
+  const { watermarkStyle } = settings;
+  const watermarkText = settings.watermarkText.trim();
+  const mark = settings.watermark === "image"
+    ? watermarkUrl && watermarkImageSize
+      ? {
+        width: (watermarkImageSize.width * watermarkStyle.size) / watermarkImageSize.height,
+        height: watermarkStyle.size,
+      }
+      : null
+    : { width: measureInBrowser(watermarkText, watermarkStyle), height: watermarkStyle.size * WATERMARK_CAP_HEIGHT };
+
+  const { customFont } = settings;
+  useEffect(() => {
+    if (!customFont) return;
+    let face: FontFace | undefined;
+    let cancelled = false;
+    customFont
+      .arrayBuffer()
+      .then((buffer) => new FontFace(CUSTOM_FONT_FACE, buffer).load())
+      .then((loaded) => {
+        if (cancelled) return;
+        face = loaded;
+        document.fonts.add(loaded);
+      })
+      .catch((error) => console.error(error));
+    return () => {
+      cancelled = true;
+      if (face) document.fonts.delete(face);
+    };
+  }, [customFont]);
+
+  return (
+    <div className={styles.sheets}>
+      {croppingUpload && cropping && (
+        <CropEditor
+          upload={croppingUpload}
+          cellAspect={cropping.cellAspect}
+          onChange={(crop) => updateImage(croppingUpload.id, { crop, scaleMode: "crop" })}
+          onClose={() => setCropping(null)} />
+      )}
+      {layout.pages.map((page, pageIndex) => (
+        <figure
+          key={pageIndex}
+          id={`pagina-${pageIndex + 1}`}
+          ref={(element) => {
+            sheetRefs.current[pageIndex] = element;
+          }}
+          className={styles.sheetFrame}
+        >
+          <div
+            className={styles.sheet}
+            style={{ aspectRatio: `${page.width} / ${page.height}` }}
+          >
+            {page.images.map((placed) => {
+              const upload = uploads[placed.index];
+              const frame = placed.clip ?? placed.image;
+              const dpi = effectiveDpi(upload, Math.max(placed.image.width, placed.image.height));
+              const lowDpi = settings.sizeMode === "dpi" && dpi < settings.targetDpi;
+              // A turned print is cropped in the photo's own orientation.
+              const cellAspect = placed.cell.width / placed.cell.height;
+              const openCrop = () =>
+                setCropping({ id: upload.id, cellAspect: placed.rotated ? 1 / cellAspect : cellAspect });
+              return (
+                <React.Fragment key={upload.id}>
+                  <div
+                    className={styles.sheetImage}
+                    style={boxStyle(frame, page)}
+                    role="button"
+                    tabIndex={0}
+                    title="Clic per ritagliare"
+                    onClick={openCrop}
+                    onKeyDown={(event) => {
+                      if (event.key === "Enter" || event.key === " ") {
+                        event.preventDefault();
+                        openCrop();
+                      }
+                    }}
+                  >
+                    <EditedImage
+                      src={upload.previewUrl}
+                      alt={upload.name}
+                      width={upload.width}
+                      height={upload.height}
+                      edits={effectiveEdits(upload, settings)}
+                      style={{
+                        ...boxStyle(placed.rotated ? unturned(placed.image) : placed.image, frame),
+                        transform: placed.rotated ? "rotate(-90deg)" : undefined,
+                        background: settings.transparency === "flatten"
+                          ? settings.backgroundColor
+                          : undefined,
+                      }}
+                    />
+                    {lowDpi && (
+                      <span
+                        className={styles.dpiBadge}
+                        title={`Risoluzione insufficiente: ${Math.round(dpi)} DPI su ${settings.targetDpi} richiesti`}
+                      >
+                        ⚠ {Math.round(dpi)} DPI
+                      </span>
+                    )}
+                  </div>
+                  {placed.captionBackground && (
+                    <div
+                      className={styles.sheetCaptionBackground}
+                      style={{
+                        ...boxStyle(placed.captionBackground, page),
+                        opacity: OVERLAY_BACKGROUND_OPACITY,
+                      }}
+                    />
+                  )}
+                  {placed.caption.map((line, lineIndex) => (
+                    <PreviewText key={lineIndex} placed={line} page={page} />
+                  ))}
+                </React.Fragment>
+              );
+            })}
+            {page.cutLines && (
+              <svg
+                className={styles.sheetCutLines}
+                viewBox={`0 0 ${page.width} ${page.height}`}
+                preserveAspectRatio="none"
+                aria-hidden
+              >
+                {page.cutLines.map(({ x1, y1, x2, y2 }, lineIndex) => (
+                  <line
+                    key={lineIndex}
+                    x1={x1}
+                    y1={page.height - y1}
+                    x2={x2}
+                    y2={page.height - y2}
+                    vectorEffect="non-scaling-stroke" />
+                ))}
+              </svg>
+            )}
+            {page.margins.map((margin, marginIndex) =>
+              margin.logoHeight && logoUrl ? (
+                <div
+                  key={marginIndex}
+                  className={styles.sheetMargin}
+                  style={{
+                    ...textStyle(margin, page),
+                    height: `${(margin.logoHeight / page.height) * 100}%`,
+                    bottom: `${((margin.rect.y - margin.logoHeight / 2) / page.height) * 100}%`,
+                  }}
+                >
+                  <img src={logoUrl} alt="" />
+                  {margin.text && <span>{margin.text}</span>}
+                </div>
+              ) : (
+                <PreviewText key={marginIndex} placed={margin} page={page} />
+              ))}
+            {page.title && <PreviewText placed={page.title} page={page} />}
+            {page.texts?.map((line, lineIndex) => (
+              <PreviewText key={lineIndex} placed={line} page={page} />
+            ))}
+            {page.logo && logoUrl && (
+              <img className={styles.sheetLogo} src={logoUrl} alt="" style={boxStyle(page.logo, page)} />
+            )}
+            {mark && watermarkMarks(settings, page, mark).map((placed, markIndex) => (
+              <PreviewMark
+                key={markIndex}
+                placed={placed}
+                page={page}
+                settings={settings}
+                text={watermarkText}
+                imageUrl={watermarkUrl} />
+            ))}
+            {page.links?.map((link, linkIndex) => (
+              <a
+                key={linkIndex}
+                className={styles.sheetContentsLink}
+                style={boxStyle(link.rect, page)}
+                href={`#pagina-${link.page + 1}`}
+                aria-label={`Vai alla pagina ${link.page + 1}`}
+                onClick={(event) => {
+                  event.preventDefault();
+                  sheetRefs.current[link.page]?.scrollIntoView({ behavior: "smooth", block: "start" });
+                }} />
+            ))}
+          </div>
+          <figcaption>Pagina {pageIndex + 1}</figcaption>
+        </figure>
+      ))}
+    </div>
+  );
+};
+
+const PreviewText: React.FC<{ placed: PlacedText; page: PageLayout }> = ({
+  placed,
+  page,
+}) =>
+  <div className={styles.sheetText} style={textStyle(placed, page)}>
+    {placed.text}
+  </div>;
+
+const PreviewMark: React.FC<{
+  placed: PlacedMark;
+  page: PageLayout;
+  settings: PdfSettings;
+  text: string;
+  imageUrl?: string;
+}> = ({ placed, page, settings, text, imageUrl }) => {
+  const area = placed.clip ?? page;
+  const content = (
+    <div
+      className={styles.sheetWatermark}
+      style={{
+        ...boxStyle(placed.rect, area),
+        transform: `rotate(${-settings.watermarkRotation}deg)`,
+        opacity: settings.watermarkOpacity,
+        fontSize: `${(settings.watermarkStyle.size / page.width) * 100}cqw`,
+        fontFamily: PREVIEW_FONT_STACKS[settings.watermarkStyle.family],
+        color: settings.watermarkColor,
+      }}
+    >
+      {settings.watermark === "image" ? <img src={imageUrl} alt="" /> : text}
+    </div>
+  );
+  return placed.clip
+    ? <div className={styles.sheetWatermarkClip} style={boxStyle(placed.clip, page)}>{content}</div>
+    : content;
+};
+
+// Layout rects use PDF space (origin bottom-left, pt); the preview maps them
+// to percentages of the sheet (or of an enclosing rect) so it scales with the
+// available width.
+/** The upright rect that covers `rect` once turned a quarter about its centre. */
+const unturned = (rect: Rect): Rect => ({
+  x: rect.x + (rect.width - rect.height) / 2,
+  y: rect.y + (rect.height - rect.width) / 2,
+  width: rect.height,
+  height: rect.width,
+});
+
+const boxStyle = (
+  rect: Rect,
+  frame: { width: number; height: number; x?: number; y?: number },
+): CSSProperties => ({
+  left: `${((rect.x - (frame.x ?? 0)) / frame.width) * 100}%`,
+  bottom: `${((rect.y - (frame.y ?? 0)) / frame.height) * 100}%`,
+  width: `${(rect.width / frame.width) * 100}%`,
+  height: `${(rect.height / frame.height) * 100}%`,
+});
+
+const textStyle = (placed: PlacedText, page: PageLayout): CSSProperties => ({
+  ...boxStyle(placed.rect, page),
+  fontSize: `${(placed.fontSize / page.width) * 100}cqw`,
+  fontFamily: PREVIEW_FONT_STACKS[placed.family],
+  color: placed.color,
+  textAlign: placed.align,
+  justifyContent:
+    placed.align === "left" ? "flex-start" : placed.align === "right" ? "flex-end" : "center",
+});
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+// Canvas metrics of the preview fonts; close to, not identical with, the PDF.
+const measureInBrowser: TextMeasurer = (text, style) => {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== "undefined"
+      ? document.createElement("canvas").getContext("2d")
+      : null;
+  }
+  if (!measureContext) return approximateMeasure(text, style);
+  measureContext.font = `${style.size}px ${PREVIEW_FONT_STACKS[style.family]}`;
+  return measureContext.measureText(text).width;
+};
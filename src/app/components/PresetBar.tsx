@@ -0,0 +1,155 @@
+"use client";
+
+import React, { ChangeEvent, useCallback, useEffect, useState } from "react";
+import styles from "./page.module.css";
+import { PdfSettings } from "../lib/types";
+import { generateId } from "../lib/ids";
+import {
+  deletePreset,
+  getDefaultPresetId,
+  listPresets,
+  Preset,
+  savePreset,
+  setDefaultPresetId,
+} from "../lib/storage";
+import { exportPresets, importPresets, PresetsFileError } from "../lib/presets";
+
+interface Props {
+  settings: PdfSettings;
+  updateSettings: (patch: Partial<PdfSettings>) => void;
+}
+
+/** Saves the current settings under a name and applies saved ones. */
+export const PresetBar: React.FC<Props> = ({ settings, updateSettings }) => {
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [defaultId, setDefaultId] = useState<string | undefined>();
+  const [selectedId, setSelectedId] = useState("");
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = useCallback(
+    () => Promise.all([listPresets(), getDefaultPresetId()])
+      .then(([stored, storedDefault]) => {
+        setPresets(stored);
+        setDefaultId(storedDefault);
+      })
+      .catch((error) => console.error(error)),
+    [],
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const selected = presets.find((preset) => preset.id === selectedId);
+
+  const apply = (id: string) => {
+    setSelectedId(id);
+    const preset = presets.find((item) => item.id === id);
+    if (!preset) return;
+    updateSettings(preset.settings);
+    setName(preset.name);
+  };
+
+  // Saving under an existing name updates that preset.
+  const save = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const existing = presets.find((preset) => preset.name === trimmed);
+    const preset = { id: existing?.id ?? generateId(), name: trimmed, settings };
+    await savePreset(preset);
+    setSelectedId(preset.id);
+    setMessage(existing ? `Preset "${trimmed}" aggiornato.` : `Preset "${trimmed}" salvato.`);
+    await refresh();
+  };
+
+  const remove = async () => {
+    if (!selected || !window.confirm(`Eliminare il preset "${selected.name}"?`)) return;
+    await deletePreset(selected.id);
+    if (selected.id === defaultId) await setDefaultPresetId(undefined);
+    setSelectedId("");
+    await refresh();
+  };
+
+  const toggleDefault = async () => {
+    if (!selected) return;
+    await setDefaultPresetId(selected.id === defaultId ? undefined : selected.id);
+    await refresh();
+  };
+
+  const handleExport = async () => {
+    const blob = await exportPresets(presets, defaultId);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.download = "preset.json";
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const imported = await importPresets(file);
+      await Promise.all(imported.presets.map(savePreset));
+      if (imported.defaultId) await setDefaultPresetId(imported.defaultId);
+      setMessage(`${imported.presets.length} preset importati.`);
+      await refresh();
+    } catch (error) {
+      console.error(error);
+      setMessage(error instanceof PresetsFileError ? error.message : "Impossibile importare i preset.");
+    }
+  };
+
+  return <div className={styles.presetBar}>
+    <div className={styles.control}>
+      <label htmlFor="preset">Preset</label>
+      <div className={styles.inlineInputs}>
+        <select id="preset" value={selectedId} onChange={(event) => apply(event.target.value)}>
+          <option value="">Impostazioni correnti</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}{preset.id === defaultId ? " (predefinito)" : ""}
+            </option>
+          ))}
+        </select>
+        <button className={styles.ghostButton} type="button" disabled={!selected} onClick={toggleDefault}>
+          {selected && selected.id === defaultId ? "Togli predefinito" : "Rendi predefinito"}
+        </button>
+        <button className={styles.ghostButton} type="button" disabled={!selected} onClick={remove}>
+          Elimina
+        </button>
+      </div>
+    </div>
+    <div className={styles.control}>
+      <label htmlFor="presetName">Salva impostazioni come</label>
+      <div className={styles.inlineInputs}>
+        <input
+          id="presetName"
+          type="text"
+          placeholder="Nome del preset"
+          value={name}
+          onChange={(event) => setName(event.target.value)} />
+        <button className={styles.ghostButton} type="button" disabled={!name.trim()} onClick={save}>
+          Salva
+        </button>
+      </div>
+    </div>
+    <div className={styles.projectActions}>
+      <button className={styles.ghostButton} type="button" disabled={!presets.length} onClick={handleExport}>
+        Esporta preset
+      </button>
+      <label className={styles.ghostButton}>
+        <input
+          className={styles.fileInput}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport} />
+        <span>Importa preset</span>
+      </label>
+    </div>
+    {message && <small className={styles.presetMessage}>{message}</small>}
+  </div>;
+};
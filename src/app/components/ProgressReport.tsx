@@ -0,0 +1,27 @@
+"use client";
+
+import React from "react";
+import styles from "./page.module.css";
+import { BuildProgress } from "../lib/types";
+import { formatMB } from "../lib/units";
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return seconds < 60
+    ? `${seconds} s`
+    : `${Math.floor(seconds / 60)} min ${seconds % 60} s`;
+};
+
+export const ProgressReport: React.FC<{ progress: BuildProgress }> = ({ progress }) => {
+  const { done, total, bytesDone, bytesTotal, elapsed } = progress;
+  const remaining = done ? (elapsed / done) * (total - done) : null;
+  return (
+    <div className={styles.progress}>
+      <progress max={total} value={done} />
+      <small>
+        {done} di {total} immagini · {formatMB(bytesDone)} di {formatMB(bytesTotal)}
+        {remaining !== null && done < total && ` · circa ${formatDuration(remaining)} rimanenti`}
+      </small>
+    </div>
+  );
+};
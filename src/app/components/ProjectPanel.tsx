@@ -0,0 +1,228 @@
+"use client";
+
+import React, { ChangeEvent, useCallback, useEffect, useRef, useState } from "react";
+import styles from "./page.module.css";
+import { PdfSettings, UploadItem } from "../lib/types";
+import { DEFAULT_SETTINGS } from "../lib/constants";
+import { generateId } from "../lib/ids";
+import {
+  deleteProject,
+  getLastProjectId,
+  listProjects,
+  loadDefaultSettings,
+  loadProject,
+  saveProject,
+  setLastProjectId,
+  StoredProject,
+  toStoredUpload,
+} from "../lib/storage";
+import { ARCHIVE_EXTENSION, ArchiveError, exportProject, importProject } from "../lib/archive";
+
+interface Props {
+  uploads: UploadItem[];
+  mergePdfs: File[];
+  settings: PdfSettings;
+  openProject: (project: StoredProject) => void;
+  updateSettings: (patch: Partial<PdfSettings>) => void;
+}
+
+const UNTITLED = "Progetto senza titolo";
+const AUTOSAVE_DELAY = 800; // ms
+
+export const ProjectPanel: React.FC<Props> = ({
+  uploads,
+  mergePdfs,
+  settings,
+  openProject,
+  updateSettings,
+}) => {
+  const [project, setProject] = useState(() => ({ id: generateId(), name: UNTITLED }));
+  const [projects, setProjects] = useState<StoredProject[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  // Last session found at startup; nothing is saved until the user decides.
+  const [restore, setRestore] = useState<StoredProject | null>(null);
+  const [ready, setReady] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const savedIds = useRef(new Set<string>());
+
+  const showList = useCallback((stored: StoredProject[]) => {
+    stored.forEach((item) => savedIds.current.add(item.id));
+    setProjects(stored);
+  }, []);
+
+  const refreshList = useCallback(async () => showList(await listProjects()), [showList]);
+
+  useEffect(() => {
+    Promise.all([getLastProjectId(), listProjects()])
+      .then(async ([lastId, stored]) => {
+        showList(stored);
+        const last = lastId ? await loadProject(lastId) : undefined;
+        if (last?.uploads.length) {
+          setRestore(last);
+        } else {
+          updateSettings(await loadDefaultSettings());
+          setReady(true);
+        }
+      })
+      .catch((error) => {
+        console.error(error);
+        setMessage("Il salvataggio automatico non è disponibile in questo browser.");
+      });
+  }, [showList, updateSettings]);
+
+  const save = useCallback(async () => {
+    if (!uploads.length && !savedIds.current.has(project.id)) return;
+    await saveProject({
+      ...project,
+      updatedAt: Date.now(),
+      settings,
+      uploads: uploads.map(toStoredUpload),
+      mergePdfs,
+    });
+    await setLastProjectId(project.id);
+    await refreshList();
+  }, [project, settings, uploads, mergePdfs, refreshList]);
+
+  useEffect(() => {
+    if (!ready) return;
+    const timer = setTimeout(() => save().catch((error) => console.error(error)), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [ready, save]);
+
+  const open = async (next: StoredProject) => {
+    await save().catch((error) => console.error(error));
+    setProject({ id: next.id, name: next.name });
+    openProject(next);
+    setRestore(null);
+    setReady(true);
+    setMessage(null);
+  };
+
+  const startNew = async () => open({
+    id: generateId(),
+    name: UNTITLED,
+    updatedAt: Date.now(),
+    settings: await loadDefaultSettings().catch(() => DEFAULT_SETTINGS),
+    uploads: [],
+  });
+
+  const openSelected = async () => {
+    const stored = selectedId ? await loadProject(selectedId) : undefined;
+    if (stored) await open(stored);
+  };
+
+  const removeSelected = async () => {
+    const target = projects.find((item) => item.id === selectedId);
+    if (!target || !window.confirm(`Eliminare il progetto "${target.name}"?`)) return;
+    await deleteProject(target.id);
+    savedIds.current.delete(target.id);
+    setSelectedId("");
+    if (target.id === project.id) {
+      setProject({ id: generateId(), name: project.name });
+    }
+    await refreshList();
+  };
+
+  const handleExport = async () => {
+    const blob = await exportProject({
+      ...project,
+      updatedAt: Date.now(),
+      settings,
+      uploads: uploads.map(toStoredUpload),
+      mergePdfs,
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.download = `${project.name.trim() || "progetto"}${ARCHIVE_EXTENSION}`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      await open(await importProject(file, generateId()));
+    } catch (error) {
+      console.error(error);
+      setMessage(error instanceof ArchiveError ? error.message : "Impossibile importare il progetto.");
+    }
+  };
+
+  return <section className={styles.card}>
+    {restore && (
+      <div className={styles.restoreBanner}>
+        <span>
+          Hai lasciato in sospeso &ldquo;{restore.name}&rdquo; ({restore.uploads.length} immagini,{" "}
+          {new Date(restore.updatedAt).toLocaleString("it-IT", { dateStyle: "short", timeStyle: "short" })}).
+        </span>
+        <button className={styles.primaryButton} type="button" onClick={() => open(restore)}>
+          Ripristina
+        </button>
+        <button
+          className={styles.ghostButton}
+          type="button"
+          onClick={async () => {
+            setRestore(null);
+            updateSettings(await loadDefaultSettings().catch(() => DEFAULT_SETTINGS));
+            setReady(true);
+          }}
+        >
+          Ignora
+        </button>
+      </div>
+    )}
+    <div className={styles.projectRow}>
+      <div className={styles.control}>
+        <label htmlFor="projectName">Progetto</label>
+        <input
+          id="projectName"
+          type="text"
+          value={project.name}
+          onChange={(event) => setProject((current) => ({ ...current, name: event.target.value }))} />
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="savedProjects">Progetti salvati</label>
+        <div className={styles.inlineInputs}>
+          <select
+            id="savedProjects"
+            value={selectedId}
+            onChange={(event) => setSelectedId(event.target.value)}
+          >
+            <option value="">Scegli...</option>
+            {projects.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name} ({item.uploads.length})
+              </option>
+            ))}
+          </select>
+          <button className={styles.ghostButton} type="button" disabled={!selectedId} onClick={openSelected}>
+            Apri
+          </button>
+          <button className={styles.ghostButton} type="button" disabled={!selectedId} onClick={removeSelected}>
+            Elimina
+          </button>
+        </div>
+      </div>
+      <div className={styles.projectActions}>
+        <button className={styles.ghostButton} type="button" onClick={startNew}>
+          Nuovo progetto
+        </button>
+        <button className={styles.ghostButton} type="button" disabled={!uploads.length} onClick={handleExport}>
+          Esporta progetto
+        </button>
+        <label className={styles.ghostButton}>
+          <input
+            className={styles.fileInput}
+            type="file"
+            accept={`${ARCHIVE_EXTENSION},application/zip`}
+            onChange={handleImport} />
+          <span>Importa progetto</span>
+        </label>
+      </div>
+    </div>
+    {message && <p className={styles.status}>{message}</p>}
+  </section>;
+};
@@ -1,56 +1,289 @@
 "use client";
 
-import React, { SetStateAction, ChangeEvent, useState, useMemo } from "react";
+import React, { SetStateAction, ChangeEvent, useEffect, useState, useMemo, useRef } from "react";
 import styles from "./page.module.css";
-import { PagePresetKey, UploadItem } from "../lib/types";
-import { formatMB } from "../lib/units";
-import { PAGE_PRESETS } from "../lib/constants";
+import {
+  CaptionMode,
+  CaptionPosition,
+  CellAspect,
+  LayoutMode,
+  LengthUnit,
+  FontFamily,
+  PageOrientation,
+  PageSizeKey,
+  PdfSettings,
+  ScaleMode,
+  TextAlign,
+  TextStyle,
+  TransparencyMode,
+  SizeMode,
+  SectionBreak,
+  MergeNumbering,
+  MergePosition,
+  LogoPosition,
+  PageNumberFormat,
+  PrintSizeKey,
+  CutMarks,
+  GridFillOrder,
+  GridVerticalAlign,
+  WatermarkKind,
+  WatermarkRepeat,
+  BuildProgress,
+  UploadItem,
+} from "../lib/types";
+import { formatLength, formatMB } from "../lib/units";
+import {
+  CELL_ASPECTS,
+  CUT_MARKS,
+  FILL_ORDERS,
+  LAYOUT_MODES,
+  LOGO_POSITIONS,
+  MERGE_NUMBERINGS,
+  MERGE_POSITIONS,
+  PAGE_NUMBER_FORMATS,
+  PAGE_PRESETS,
+  PRINT_DPIS,
+  PRINT_SIZES,
+  SCALE_MODES,
+  SECTION_BREAKS,
+  SIZE_MODES,
+  TRANSPARENCY_MODES,
+  VERTICAL_ALIGNS,
+  WATERMARK_KINDS,
+  WATERMARK_REPEATS,
+} from "../lib/constants";
 import { generatePdf } from "../lib/pdf";
+import { readImageSize } from "../lib/images";
+import { ACCEPTED_FILES, decodeUpload, RejectedFile, UnsupportedFileError } from "../lib/decoders";
+import { LengthInput } from "./LengthInput";
+import { readExif } from "../lib/exif";
+import { FONT_FAMILIES, loadBundledCharacters, replacedCharacters } from "../lib/fonts";
+import { CAPTION_MODES, CAPTION_TOKENS } from "../lib/captions";
+import { ProgressReport } from "./ProgressReport";
+import { PresetBar } from "./PresetBar";
+import { generateId } from "../lib/ids";
+import {
+  computeLayout,
+  contentFrame,
+  MARGIN_TOKENS,
+  printGrid,
+  toLayoutImages,
+  validateLayout,
+} from "../lib/layout";
+import { planSize } from "../lib/budget";
 
 interface Props {
   uploads: UploadItem[];
   setUploads: (value: SetStateAction<UploadItem[]>) => void;
-  columns: number;
-  setColumns: (v: SetStateAction<number>) => void;
+  mergePdfs: File[];
+  setMergePdfs: (value: SetStateAction<File[]>) => void;
+  settings: PdfSettings;
+  updateSettings: (patch: Partial<PdfSettings>) => void;
 }
 
 export const SettingsPanel: React.FC<Props> = ({
   uploads,
   setUploads,
-  columns,
-  setColumns,
+  mergePdfs,
+  setMergePdfs,
+  settings,
+  updateSettings,
 }) => {
-  const [maxSide, setMaxSide] = useState(1600);
-  const [gutter, setGutter] = useState(4);
-  const [verticalPadding, setVerticalPadding] = useState(11);
-  const [leftPadding, setLeftPadding] = useState(11);
-  const [rightPadding, setRightPadding] = useState(11);
-  const [jpegQuality, setJpegQuality] = useState(0.85);
-  const [pageSize, setPageSize] = useState<PagePresetKey>("a4");
-  const [fileName, setFileName] = useState("risultato.pdf");
-  const [headerText, setHeaderText] = useState("");
-  const [footerText, setFooterText] = useState("");
-  const [startingPageNumber, setStartingPageNumber] = useState(1);
-  const [logo, setLogo] = useState<File | undefined>(undefined);
+  const {
+    layoutMode,
+    columns,
+    sizeMode,
+    targetSizeMB,
+    targetDpi,
+    maxSide,
+    gutter,
+    verticalPadding,
+    leftPadding,
+    rightPadding,
+    jpegQuality,
+    transparency,
+    backgroundColor,
+    pageSize,
+    orientation,
+    customPageWidth,
+    customPageHeight,
+    lengthUnit,
+    fileName,
+    headerText,
+    headerLeft,
+    headerRight,
+    footerText,
+    footerLeft,
+    footerRight,
+    startingPageNumber,
+    pageNumberFormat,
+    logoPosition,
+    mirrorMargins,
+    captionStyle,
+    headerStyle,
+    footerStyle,
+    captionMode,
+    captionTemplate,
+    captionPosition,
+    captionAlign,
+    captionMaxLines,
+    showExifInfo,
+    cellAspect,
+    fillOrder,
+    rightToLeft,
+    centerLastRow,
+    verticalAlign,
+    maxRowsPerPage,
+    printSize,
+    customPrintWidth,
+    customPrintHeight,
+    printBleed,
+    cutMarks,
+    scaleMode,
+    grayscale,
+    sectionBreak,
+    tableOfContents,
+    coverPage,
+    documentTitle,
+    documentSubtitle,
+    documentAuthor,
+    documentDate,
+    documentSubject,
+    documentKeywords,
+    coverImageId,
+    numberCover,
+    mergePosition,
+    mergePage,
+    mergeNumbering,
+    watermark,
+    watermarkText,
+    watermarkStyle,
+    watermarkColor,
+    watermarkRotation,
+    watermarkOpacity,
+    watermarkRepeat,
+  } = settings;
 
   const [isBuilding, setIsBuilding] = useState(false);
   const [status, setStatus] = useState<string | null>(null);
+  const [progress, setProgress] = useState<BuildProgress | null>(null);
+  const [rejected, setRejected] = useState<RejectedFile[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+  const setFailures = (failures: Record<string, string>) =>
+    setUploads((current) => current.map((item) =>
+      item.error === failures[item.id] ? item : { ...item, error: failures[item.id] }));
+
+  const sizePlan = useMemo(() => planSize(uploads, settings), [uploads, settings]);
+
+  const layout = useMemo(() => computeLayout(settings, toLayoutImages(uploads, settings)), [settings, uploads]);
+
+  const [bundledCharacters, setBundledCharacters] = useState<Set<number> | null>(null);
+  useEffect(() => {
+    loadBundledCharacters()
+      .then(setBundledCharacters)
+      .catch((error) => console.error(error));
+  }, []);
+
+  // Warns before the build about characters the PDF cannot draw.
+  const replaced = useMemo(() => {
+    if (!bundledCharacters) return [];
+    const texts = [
+      ...layout.pages.flatMap((page) => [
+        ...(page.title ? [page.title] : []),
+        ...(page.texts ?? []),
+        ...page.margins,
+        ...page.images.flatMap((placed) => placed.caption),
+      ]),
+      ...(settings.watermark === "text"
+        ? [{ text: settings.watermarkText, family: settings.watermarkStyle.family }]
+        : []),
+    ];
+    return replacedCharacters(texts, bundledCharacters, settings.customFont);
+  }, [layout, bundledCharacters, settings]);
+
+  const layoutWarnings = useMemo(
+    () => [
+      ...validateLayout(settings, toLayoutImages(uploads, settings)),
+      ...(replaced.length
+        ? [
+          `Nel PDF questi caratteri saranno sostituiti da "?" perché Noto Sans non li contiene: ` +
+            `${replaced.slice(0, 20).join(" ")}${replaced.length > 20 ? " …" : ""}. ` +
+            "Per cinese, giapponese, coreano ed emoji carica un font TTF/OTF che li includa.",
+        ]
+        : []),
+    ],
+    [settings, uploads, replaced],
+  );
+
+  const printJob = useMemo(() => {
+    if (settings.layoutMode !== "print") return null;
+    return {
+      sheets: layout.pages.length,
+      perPage: printGrid(settings, contentFrame(settings).frame).perPage,
+    };
+  }, [settings, layout]);
+
+  const buildPdf = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    await generatePdf({
+      uploads,
+      mergePdfs,
+      isBuilding,
+      setIsBuilding,
+      setStatus,
+      setProgress,
+      setFailures,
+      settings,
+      signal: controller.signal,
+    });
+    abortRef.current = null;
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files?.length) return;
-    const next = Array.from(files)
-      .filter((file) => file.type.startsWith("image/"))
-      .map((file) => ({
-        id: generateId(),
-        file,
-        previewUrl: URL.createObjectURL(file),
-        name: file.name,
-        size: file.size,
+    const selected = Array.from(files);
+    event.target.value = "";
+    const skipped: RejectedFile[] = [];
+
+    const next = await Promise.all(selected.map(async (file): Promise<UploadItem[]> => {
+      const decoded = await decodeUpload(file).catch((error: unknown) => {
+        skipped.push({
+          name: file.name,
+          reason: error instanceof UnsupportedFileError ? error.message : "File non leggibile.",
+        });
+        return [];
+      });
+      const { capturedAt, orientation, camera, location } = await readExif(file);
+      const folder = file.webkitRelativePath.split("/").slice(0, -1).join("/");
+      const items = await Promise.all(decoded.map(async (image) => {
+        const size = await readImageSize(image, orientation).catch(() => null);
+        if (!size) {
+          skipped.push({ name: image.name, reason: "Formato non supportato da questo browser." });
+          return null;
+        }
+        return {
+          id: generateId(),
+          file: image,
+          previewUrl: URL.createObjectURL(image),
+          name: decoded.length > 1 ? image.name : file.name,
+          size: image.size,
+          width: size.width,
+          height: size.height,
+          capturedAt,
+          orientation,
+          camera,
+          location,
+          folder: folder || undefined,
+        };
       }));
+      return items.filter((item) => item !== null);
+    }));
 
-    setUploads((current) => [...current, ...next]);
-    event.target.value = "";
+    setRejected(skipped);
+    setUploads((current) => [...current, ...next.flat()]);
   };
 
   const clearAll = () => {
@@ -71,11 +304,20 @@ export const SettingsPanel: React.FC<Props> = ({
         <input
           className={styles.fileInput}
           type="file"
-          accept="image/*"
+          accept={ACCEPTED_FILES}
           multiple
           onChange={handleFileChange} />
         <span>Seleziona immagini</span>
       </label>
+      <label className={styles.ghostButton}>
+        <input
+          className={styles.fileInput}
+          type="file"
+          multiple
+          onChange={handleFileChange}
+          {...{ webkitdirectory: "" }} />
+        <span>Seleziona cartella</span>
+      </label>
       <button
         className={styles.ghostButton}
         onClick={clearAll}
@@ -91,16 +333,249 @@ export const SettingsPanel: React.FC<Props> = ({
       </div>
     </div>
 
+    {rejected.length > 0 && (
+      <div className={styles.warnings}>
+        <strong>File non aggiunti:</strong>
+        <ul>
+          {rejected.map((file, index) => (
+            <li key={index}>{file.name}: {file.reason}</li>
+          ))}
+        </ul>
+        <button className={styles.ghostButton} type="button" onClick={() => setRejected([])}>
+          Chiudi
+        </button>
+      </div>
+    )}
+
+    <PresetBar settings={settings} updateSettings={updateSettings} />
+
     <div className={styles.controls}>
       <div className={styles.control}>
-        <label htmlFor="columns">Immagini per riga</label>
+        <label htmlFor="layoutMode">Disposizione</label>
+        <select
+          id="layoutMode"
+          value={layoutMode}
+          onChange={(event) => updateSettings({ layoutMode: event.target.value as LayoutMode })}
+        >
+          {Object.entries(LAYOUT_MODES).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+        <small>Righe giustificate e colonne mantengono le proporzioni delle immagini.</small>
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="columns">{layoutMode === "masonry" ? "Colonne" : "Immagini per riga"}</label>
         <input
           id="columns"
           type="number"
           min={1}
           max={8}
+          disabled={layoutMode === "print"}
           value={columns}
-          onChange={(event) => setColumns(clampNumber(Number(event.target.value), 1, 8))} />
+          onChange={(event) => updateSettings({ columns: clampNumber(Number(event.target.value), 1, 8) })} />
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="cellAspect">Proporzioni cella</label>
+        <select
+          id="cellAspect"
+          disabled={layoutMode !== "grid"}
+          value={cellAspect}
+          onChange={(event) => updateSettings({ cellAspect: event.target.value as CellAspect })}
+        >
+          {Object.entries(CELL_ASPECTS).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="fillOrder">Riempimento griglia</label>
+        <select
+          id="fillOrder"
+          disabled={layoutMode !== "grid"}
+          value={fillOrder}
+          onChange={(event) => updateSettings({ fillOrder: event.target.value as GridFillOrder })}
+        >
+          {Object.entries(FILL_ORDERS).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+        <label className={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            disabled={layoutMode !== "grid"}
+            checked={rightToLeft}
+            onChange={(event) => updateSettings({ rightToLeft: event.target.checked })} />
+          Da destra a sinistra
+        </label>
+        <label className={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            disabled={layoutMode !== "grid" || fillOrder !== "rows"}
+            checked={centerLastRow}
+            onChange={(event) => updateSettings({ centerLastRow: event.target.checked })} />
+          Centra l&apos;ultima riga incompleta
+        </label>
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="verticalAlign">Righe nella pagina</label>
+        <div className={styles.inlineInputs}>
+          <select
+            id="verticalAlign"
+            disabled={layoutMode !== "grid"}
+            value={verticalAlign}
+            onChange={(event) => updateSettings({ verticalAlign: event.target.value as GridVerticalAlign })}
+          >
+            {Object.entries(VERTICAL_ALIGNS).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            aria-label="Righe al massimo per pagina"
+            disabled={layoutMode !== "grid"}
+            min={0}
+            max={20}
+            value={maxRowsPerPage}
+            onChange={(event) => updateSettings({ maxRowsPerPage: clampNumber(Number(event.target.value), 0, 20) })} />
+        </div>
+        <small>Righe al massimo per pagina; 0 per quante ne entrano.</small>
+      </div>
+      {layoutMode === "print" && (
+        <>
+          <div className={styles.control}>
+            <label htmlFor="printSize">Formato stampa</label>
+            <select
+              id="printSize"
+              value={printSize}
+              onChange={(event) => updateSettings({ printSize: event.target.value as PrintSizeKey })}
+            >
+              {Object.entries(PRINT_SIZES).map(([key, size]) => (
+                <option key={key} value={key}>{size.label}</option>
+              ))}
+              <option value="custom">Personalizzato</option>
+            </select>
+            {printJob && (
+              <small>
+                {printJob.sheets} {printJob.sheets === 1 ? "foglio" : "fogli"}, fino a{" "}
+                {printJob.perPage} foto per foglio.
+              </small>
+            )}
+          </div>
+          {printSize === "custom" && (
+            <>
+              <div className={styles.control}>
+                <label htmlFor="customPrintWidth">Larghezza stampa ({lengthUnit})</label>
+                <LengthInput
+                  id="customPrintWidth"
+                  min={10}
+                  max={1200}
+                  unit={lengthUnit}
+                  value={customPrintWidth}
+                  onChange={(value) => updateSettings({ customPrintWidth: value })} />
+              </div>
+              <div className={styles.control}>
+                <label htmlFor="customPrintHeight">Altezza stampa ({lengthUnit})</label>
+                <LengthInput
+                  id="customPrintHeight"
+                  min={10}
+                  max={1200}
+                  unit={lengthUnit}
+                  value={customPrintHeight}
+                  onChange={(value) => updateSettings({ customPrintHeight: value })} />
+              </div>
+            </>
+          )}
+          <div className={styles.control}>
+            <label htmlFor="printBleed">Abbondanza ({lengthUnit})</label>
+            <LengthInput
+              id="printBleed"
+              min={0}
+              max={10}
+              unit={lengthUnit}
+              value={printBleed}
+              onChange={(value) => updateSettings({ printBleed: value })} />
+            <small>L&apos;immagine sborda oltre il taglio; la spaziatura si allarga se serve.</small>
+          </div>
+          <div className={styles.control}>
+            <label htmlFor="cutMarks">Segni di taglio</label>
+            <select
+              id="cutMarks"
+              value={cutMarks}
+              onChange={(event) => updateSettings({ cutMarks: event.target.value as CutMarks })}
+            >
+              {Object.entries(CUT_MARKS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+      <div className={styles.control}>
+        <label htmlFor="scaleMode">Adattamento immagini</label>
+        <select
+          id="scaleMode"
+          value={scaleMode}
+          onChange={(event) => updateSettings({ scaleMode: event.target.value as ScaleMode })}
+        >
+          {Object.entries(SCALE_MODES).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+        <small>
+          {layoutMode === "print"
+            ? "Le stampe riempiono sempre il formato e vengono ruotate se serve. "
+            : ""}
+          Clicca un&apos;immagine nell&apos;anteprima per ritagliarla a mano.
+        </small>
+      </div>
+      <div className={styles.control}>
+        <label className={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={grayscale}
+            onChange={(event) => updateSettings({ grayscale: event.target.checked })} />
+          Tutto in bianco e nero
+        </label>
+        <small>Per la stampa in bianco e nero; alleggerisce anche il PDF.</small>
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="sizeMode">Peso del PDF</label>
+        <div className={styles.inlineInputs}>
+          <select
+            id="sizeMode"
+            value={sizeMode}
+            onChange={(event) => updateSettings({ sizeMode: event.target.value as SizeMode })}
+          >
+            {Object.entries(SIZE_MODES).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+          {sizeMode === "dpi" && (
+            <select
+              aria-label="Risoluzione di stampa"
+              value={targetDpi}
+              onChange={(event) => updateSettings({ targetDpi: Number(event.target.value) })}
+            >
+              {PRINT_DPIS.map((dpi) => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+            </select>
+          )}
+          {sizeMode === "target" && (
+            <input
+              type="number"
+              aria-label="Dimensione massima (MB)"
+              min={1}
+              max={500}
+              value={targetSizeMB}
+              onChange={(event) => updateSettings({ targetSizeMB: clampNumber(Number(event.target.value), 1, 500) })} />
+          )}
+        </div>
+        {uploads.length > 0 && (
+          <small>
+            Stima: circa {formatMB(sizePlan.estimate)}
+            {sizePlan.dpi !== undefined &&
+              ` · ${sizePlan.dpi} DPI · qualità ${Math.round(sizePlan.quality * 100)}%`}
+          </small>
+        )}
       </div>
       <div className={styles.control}>
         <label htmlFor="maxSide">Lato massimo immagine (px)</label>
@@ -109,49 +584,60 @@ export const SettingsPanel: React.FC<Props> = ({
           type="number"
           min={400}
           max={6000}
+          disabled={sizeMode !== "manual"}
           value={maxSide}
-          onChange={(event) => setMaxSide(clampNumber(Number(event.target.value), 400, 6000))} />
+          onChange={(event) => updateSettings({ maxSide: clampNumber(Number(event.target.value), 400, 6000) })} />
         <small>Ridimensiona immagini per ottenere un PDF più leggero.</small>
       </div>
       <div className={styles.control}>
-        <label htmlFor="verticalPadding">Margine verticale (mm)</label>
-        <input
+        <label htmlFor="verticalPadding">Margine verticale ({lengthUnit})</label>
+        <LengthInput
           id="verticalPadding"
-          type="number"
           min={5}
           max={30}
+          unit={lengthUnit}
           value={verticalPadding}
-          onChange={(event) => setVerticalPadding(clampNumber(Number(event.target.value), 5, 30))} />
+          onChange={(value) => updateSettings({ verticalPadding: value })} />
       </div>
       <div className={styles.control}>
-        <label htmlFor="leftPadding">Margine sinistro (mm)</label>
-        <input
+        <label htmlFor="leftPadding">{mirrorMargins ? "Margine interno" : "Margine sinistro"} ({lengthUnit})</label>
+        <LengthInput
           id="leftPadding"
-          type="number"
           min={5}
           max={30}
+          unit={lengthUnit}
           value={leftPadding}
-          onChange={(event) => setLeftPadding(clampNumber(Number(event.target.value), 5, 30))} />
+          onChange={(value) => updateSettings({ leftPadding: value })} />
       </div>
       <div className={styles.control}>
-        <label htmlFor="rightPadding">Margine destro (mm)</label>
-        <input
+        <label htmlFor="rightPadding">{mirrorMargins ? "Margine esterno" : "Margine destro"} ({lengthUnit})</label>
+        <LengthInput
           id="rightPadding"
-          type="number"
           min={5}
           max={30}
+          unit={lengthUnit}
           value={rightPadding}
-          onChange={(event) => setRightPadding(clampNumber(Number(event.target.value), 5, 30))} />
+          onChange={(value) => updateSettings({ rightPadding: value })} />
       </div>
       <div className={styles.control}>
-        <label htmlFor="gutter">Spazio tra celle (mm)</label>
-        <input
+        <label className={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={mirrorMargins}
+            onChange={(event) => updateSettings({ mirrorMargins: event.target.checked })} />
+          Margini speculari (fronte/retro)
+        </label>
+        <small>Sulle pagine pari i margini e i testi a sinistra e a destra si scambiano, per la rilegatura.</small>
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="gutter">Spazio tra celle ({lengthUnit})</label>
+        <LengthInput
           id="gutter"
-          type="number"
           min={1}
           max={15}
+          unit={lengthUnit}
           value={gutter}
-          onChange={(event) => setGutter(clampNumber(Number(event.target.value), 1, 15))} />
+          onChange={(value) => updateSettings({ gutter: value })} />
       </div>
       <div className={styles.control}>
         <label htmlFor="quality">
@@ -163,23 +649,93 @@ export const SettingsPanel: React.FC<Props> = ({
           min={0.5}
           max={0.95}
           step={0.05}
+          disabled={sizeMode === "target"}
           value={jpegQuality}
-          onChange={(event) => setJpegQuality(Number(event.target.value))} />
+          onChange={(event) => updateSettings({ jpegQuality: Number(event.target.value) })} />
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="transparency">Trasparenza</label>
+        <div className={styles.inlineInputs}>
+          <select
+            id="transparency"
+            value={transparency}
+            onChange={(event) => updateSettings({ transparency: event.target.value as TransparencyMode })}
+          >
+            {Object.entries(TRANSPARENCY_MODES).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="color"
+            aria-label="Colore di sfondo"
+            value={backgroundColor}
+            disabled={transparency !== "flatten"}
+            onChange={(event) => updateSettings({ backgroundColor: event.target.value })} />
+        </div>
+        <small>Per PNG, WebP, AVIF e GIF con aree trasparenti.</small>
       </div>
       <div className={styles.control}>
         <label htmlFor="pageSize">Dimensione pagina</label>
         <select
           id="pageSize"
           value={pageSize}
-          onChange={(event) => setPageSize(event.target.value as PagePresetKey)}
+          onChange={(event) => updateSettings({ pageSize: event.target.value as PageSizeKey })}
         >
           {Object.entries(PAGE_PRESETS).map(([key, preset]) => (
             <option key={key} value={key}>
-              {preset.label} ({Math.round(preset.width)}×
-              {Math.round(preset.height)} mm)
+              {preset.label} ({formatLength(preset.width, lengthUnit)}×
+              {formatLength(preset.height, lengthUnit)})
             </option>
           ))}
+          <option value="custom">Personalizzata</option>
+        </select>
+      </div>
+      {pageSize === "custom" && (
+        <>
+          <div className={styles.control}>
+            <label htmlFor="customPageWidth">Larghezza pagina ({lengthUnit})</label>
+            <LengthInput
+              id="customPageWidth"
+              min={50}
+              max={1200}
+              unit={lengthUnit}
+              value={customPageWidth}
+              onChange={(value) => updateSettings({ customPageWidth: value })} />
+          </div>
+          <div className={styles.control}>
+            <label htmlFor="customPageHeight">Altezza pagina ({lengthUnit})</label>
+            <LengthInput
+              id="customPageHeight"
+              min={50}
+              max={1200}
+              unit={lengthUnit}
+              value={customPageHeight}
+              onChange={(value) => updateSettings({ customPageHeight: value })} />
+          </div>
+        </>
+      )}
+      <div className={styles.control}>
+        <label htmlFor="orientation">Orientamento</label>
+        <select
+          id="orientation"
+          value={orientation}
+          onChange={(event) => updateSettings({ orientation: event.target.value as PageOrientation })}
+        >
+          <option value="portrait">Verticale</option>
+          <option value="landscape">Orizzontale</option>
+        </select>
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="lengthUnit">Unità di misura</label>
+        <select
+          id="lengthUnit"
+          value={lengthUnit}
+          onChange={(event) => updateSettings({ lengthUnit: event.target.value as LengthUnit })}
+        >
+          <option value="mm">Millimetri (mm)</option>
+          <option value="in">Pollici (in)</option>
         </select>
+        <small>Per margini, spazio tra celle e pagina personalizzata.</small>
       </div>
       <div className={styles.control}>
         <label htmlFor="fileName">Nome PDF</label>
@@ -187,36 +743,73 @@ export const SettingsPanel: React.FC<Props> = ({
           id="fileName"
           type="text"
           value={fileName}
-          onChange={(event) => setFileName(event.target.value)} />
+          onChange={(event) => updateSettings({ fileName: event.target.value })} />
         <small>.pdf verrà aggiunto se mancante.</small>
       </div>
       <hr className={styles.separator} />
       <div className={styles.control}>
-        <label htmlFor="headerText">Intestazione</label>
-        <input
-          id="headerText"
-          type="text"
-          value={headerText}
-          onChange={(event) => setHeaderText(event.target.value)} />
-        <small>Campo facoltativo.</small>
+        <label htmlFor="headerLeft">Intestazione (sinistra, centro, destra)</label>
+        <div className={`${styles.inlineInputs} ${styles.slotInputs}`}>
+          <input
+            id="headerLeft"
+            type="text"
+            value={headerLeft}
+            onChange={(event) => updateSettings({ headerLeft: event.target.value })} />
+          <input
+            type="text"
+            aria-label="Intestazione al centro"
+            value={headerText}
+            onChange={(event) => updateSettings({ headerText: event.target.value })} />
+          <input
+            type="text"
+            aria-label="Intestazione a destra"
+            value={headerRight}
+            onChange={(event) => updateSettings({ headerRight: event.target.value })} />
+        </div>
+        <small>Campi facoltativi. Segnaposto: {MARGIN_TOKENS.join(", ")}.</small>
       </div>
       <div className={styles.control}>
-        <label htmlFor="logo">Logo intestazione</label>
+        <label htmlFor="logo">Logo</label>
         <input
           id="logo"
           type="file"
           accept="image/*"
-          onChange={(event) => setLogo(event.target.files?.[0])} />
-        <small>Campo facoltativo. Immagine da posizionare accanto all&apos;intestazione.</small>
+          onChange={(event) => updateSettings({ logo: event.target.files?.[0] })} />
+        <small>Campo facoltativo. Compare anche sulla copertina.</small>
       </div>
       <div className={styles.control}>
-        <label htmlFor="footerText">Testo a piè di pagina</label>
-        <input
-          id="footerText"
-          type="text"
-          value={footerText}
-          onChange={(event) => setFooterText(event.target.value)} />
-        <small>Campo facoltativo.</small>
+        <label htmlFor="logoPosition">Posizione logo</label>
+        <select
+          id="logoPosition"
+          value={logoPosition}
+          onChange={(event) => updateSettings({ logoPosition: event.target.value as LogoPosition })}
+        >
+          {Object.entries(LOGO_POSITIONS).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+        <small>Prima del testo dello stesso spazio, se c&apos;è.</small>
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="footerLeft">Piè di pagina (sinistra, centro, destra)</label>
+        <div className={`${styles.inlineInputs} ${styles.slotInputs}`}>
+          <input
+            id="footerLeft"
+            type="text"
+            value={footerLeft}
+            onChange={(event) => updateSettings({ footerLeft: event.target.value })} />
+          <input
+            type="text"
+            aria-label="Piè di pagina al centro"
+            value={footerText}
+            onChange={(event) => updateSettings({ footerText: event.target.value })} />
+          <input
+            type="text"
+            aria-label="Piè di pagina a destra"
+            value={footerRight}
+            onChange={(event) => updateSettings({ footerRight: event.target.value })} />
+        </div>
+        <small>Per esempio &ldquo;Pagina {"{page}"} di {"{pages}"}&rdquo;. La griglia resta sopra il piè di pagina.</small>
       </div>
       <div className={styles.control}>
         <label htmlFor="startingPageNumber">Numero pagina iniziale</label>
@@ -224,48 +817,454 @@ export const SettingsPanel: React.FC<Props> = ({
           id="startingPageNumber"
           type="number"
           min={1}
+          max={9999}
           value={startingPageNumber}
-          onChange={(event) => setStartingPageNumber(Number(event.target.value))} />
+          onChange={(event) =>
+            updateSettings({ startingPageNumber: clampNumber(Math.round(Number(event.target.value)), 1, 9999) })} />
         <small>Il numero della prima pagina.</small>
       </div>
+      <div className={styles.control}>
+        <label htmlFor="pageNumberFormat">Numeri di pagina</label>
+        <select
+          id="pageNumberFormat"
+          value={pageNumberFormat}
+          onChange={(event) => updateSettings({ pageNumberFormat: event.target.value as PageNumberFormat })}
+        >
+          {Object.entries(PAGE_NUMBER_FORMATS).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <hr className={styles.separator} />
+      <div className={styles.control}>
+        <label htmlFor="sectionBreak">Inizio delle sezioni</label>
+        <select
+          id="sectionBreak"
+          value={sectionBreak}
+          onChange={(event) => updateSettings({ sectionBreak: event.target.value as SectionBreak })}
+        >
+          {Object.entries(SECTION_BREAKS).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+        <small>Le sezioni si creano dalle miniature e diventano segnalibri del PDF.</small>
+      </div>
+      <div className={styles.control}>
+        <label className={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={tableOfContents}
+            onChange={(event) => updateSettings({ tableOfContents: event.target.checked })} />
+          Indice delle sezioni
+        </label>
+        <small>Pagine iniziali con i titoli delle sezioni e i numeri di pagina, cliccabili.</small>
+      </div>
+      <hr className={styles.separator} />
+      <div className={styles.control}>
+        <label htmlFor="documentTitle">Titolo del documento</label>
+        <input
+          id="documentTitle"
+          type="text"
+          value={documentTitle}
+          onChange={(event) => updateSettings({ documentTitle: event.target.value })} />
+        <small>Compare nella copertina e nelle proprietà del PDF.</small>
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="documentAuthor">Autore</label>
+        <input
+          id="documentAuthor"
+          type="text"
+          value={documentAuthor}
+          onChange={(event) => updateSettings({ documentAuthor: event.target.value })} />
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="documentSubject">Oggetto</label>
+        <input
+          id="documentSubject"
+          type="text"
+          value={documentSubject}
+          onChange={(event) => updateSettings({ documentSubject: event.target.value })} />
+        <small>Campo facoltativo, solo nelle proprietà del PDF.</small>
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="documentKeywords">Parole chiave</label>
+        <input
+          id="documentKeywords"
+          type="text"
+          placeholder="sopralluogo, cantiere"
+          value={documentKeywords}
+          onChange={(event) => updateSettings({ documentKeywords: event.target.value })} />
+        <small>Separate da virgole, solo nelle proprietà del PDF.</small>
+      </div>
+      <div className={styles.control}>
+        <label className={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={coverPage}
+            onChange={(event) => updateSettings({ coverPage: event.target.checked })} />
+          Pagina di copertina
+        </label>
+        <small>Con titolo, sottotitolo, autore, data e logo.</small>
+      </div>
+      {coverPage && (
+        <>
+          <div className={styles.control}>
+            <label htmlFor="documentSubtitle">Sottotitolo</label>
+            <input
+              id="documentSubtitle"
+              type="text"
+              value={documentSubtitle}
+              onChange={(event) => updateSettings({ documentSubtitle: event.target.value })} />
+          </div>
+          <div className={styles.control}>
+            <label htmlFor="documentDate">Data in copertina</label>
+            <input
+              id="documentDate"
+              type="date"
+              value={documentDate}
+              onChange={(event) => updateSettings({ documentDate: event.target.value })} />
+            <small>Vuota per la data del giorno in cui generi il PDF.</small>
+          </div>
+          <div className={styles.control}>
+            <label htmlFor="coverImageId">Immagine di copertina</label>
+            <select
+              id="coverImageId"
+              value={uploads.some((upload) => upload.id === coverImageId) ? coverImageId : ""}
+              onChange={(event) => updateSettings({ coverImageId: event.target.value || undefined })}
+            >
+              <option value="">Nessuna</option>
+              {uploads.map((upload, index) => (
+                <option key={upload.id} value={upload.id}>{index + 1}. {upload.name}</option>
+              ))}
+            </select>
+            <small>Resta anche nella griglia.</small>
+          </div>
+          <div className={styles.control}>
+            <label className={styles.checkboxLabel}>
+              <input
+                type="checkbox"
+                checked={numberCover}
+                onChange={(event) => updateSettings({ numberCover: event.target.checked })} />
+              Numera anche la copertina
+            </label>
+            <small>Altrimenti il numero iniziale va alla pagina dopo la copertina.</small>
+          </div>
+        </>
+      )}
+      <hr className={styles.separator} />
+      <div className={styles.control}>
+        <label htmlFor="mergePdfs">PDF da unire</label>
+        <input
+          id="mergePdfs"
+          type="file"
+          multiple
+          accept=".pdf,application/pdf"
+          onChange={(event) => {
+            const files = Array.from(event.target.files ?? []);
+            event.target.value = "";
+            setMergePdfs((current) => [...current, ...files]);
+          }} />
+        {mergePdfs.length > 0 && (
+          <ul className={styles.fileList}>
+            {mergePdfs.map((file, index) => (
+              <li key={index}>
+                <span>{file.name}</span>
+                <button
+                  className={styles.moveButton}
+                  type="button"
+                  onClick={() => setMergePdfs((current) => current.filter((_, other) => other !== index))}
+                >
+                  Rimuovi
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <small>Campo facoltativo. Documenti esistenti, uniti nell&apos;ordine in cui li aggiungi.</small>
+      </div>
+      {mergePdfs.length > 0 && (
+        <>
+          <div className={styles.control}>
+            <label htmlFor="mergePosition">Pagine generate</label>
+            <div className={styles.inlineInputs}>
+              <select
+                id="mergePosition"
+                value={mergePosition}
+                onChange={(event) => updateSettings({ mergePosition: event.target.value as MergePosition })}
+              >
+                {Object.entries(MERGE_POSITIONS).map(([key, label]) => (
+                  <option key={key} value={key}>{label}</option>
+                ))}
+              </select>
+              {mergePosition === "at" && (
+                <input
+                  type="number"
+                  aria-label="Pagina da cui iniziano le pagine generate"
+                  min={1}
+                  value={mergePage}
+                  onChange={(event) => updateSettings({ mergePage: clampNumber(Number(event.target.value), 1, 9999) })} />
+              )}
+            </div>
+          </div>
+          <div className={styles.control}>
+            <label htmlFor="mergeNumbering">Intestazione, piè di pagina e numeri</label>
+            <select
+              id="mergeNumbering"
+              value={mergeNumbering}
+              onChange={(event) => updateSettings({ mergeNumbering: event.target.value as MergeNumbering })}
+            >
+              {Object.entries(MERGE_NUMBERINGS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+      <hr className={styles.separator} />
+      <div className={styles.control}>
+        <label htmlFor="captionMode">Didascalie</label>
+        <select
+          id="captionMode"
+          value={captionMode}
+          onChange={(event) => updateSettings({ captionMode: event.target.value as CaptionMode })}
+        >
+          {Object.entries(CAPTION_MODES).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+        <small>Ogni miniatura può avere una didascalia propria.</small>
+      </div>
+      {captionMode === "template" && (
+        <div className={styles.control}>
+          <label htmlFor="captionTemplate">Modello didascalia</label>
+          <input
+            id="captionTemplate"
+            type="text"
+            value={captionTemplate}
+            onChange={(event) => updateSettings({ captionTemplate: event.target.value })} />
+          <small>Segnaposto: {CAPTION_TOKENS.join(", ")}.</small>
+        </div>
+      )}
+      <div className={styles.control}>
+        <label htmlFor="captionPosition">Posizione didascalia</label>
+        <select
+          id="captionPosition"
+          value={captionPosition}
+          onChange={(event) => updateSettings({ captionPosition: event.target.value as CaptionPosition })}
+        >
+          <option value="below">Sotto l&apos;immagine</option>
+          <option value="above">Sopra l&apos;immagine</option>
+          <option value="overlay">Sovrapposta all&apos;immagine</option>
+        </select>
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="captionAlign">Allineamento didascalia</label>
+        <select
+          id="captionAlign"
+          value={captionAlign}
+          onChange={(event) => updateSettings({ captionAlign: event.target.value as TextAlign })}
+        >
+          <option value="left">Sinistra</option>
+          <option value="center">Centro</option>
+          <option value="right">Destra</option>
+        </select>
+      </div>
+      <div className={styles.control}>
+        <label htmlFor="captionMaxLines">Righe massime didascalia</label>
+        <input
+          id="captionMaxLines"
+          type="number"
+          min={1}
+          max={5}
+          value={captionMaxLines}
+          onChange={(event) => updateSettings({ captionMaxLines: clampNumber(Number(event.target.value), 1, 5) })} />
+        <small>Il testo più lungo viene troncato con &ldquo;…&rdquo;.</small>
+      </div>
+      <div className={styles.control}>
+        <label className={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={showExifInfo}
+            onChange={(event) => updateSettings({ showExifInfo: event.target.checked })} />
+          Riga con data e coordinate
+        </label>
+        <small>Dai dati EXIF delle foto, sotto la didascalia.</small>
+      </div>
+      <hr className={styles.separator} />
+      <TextStyleControl
+        id="captionStyle"
+        label="Carattere didascalie"
+        value={captionStyle}
+        onChange={(value) => updateSettings({ captionStyle: value })} />
+      <TextStyleControl
+        id="headerStyle"
+        label="Carattere intestazione"
+        value={headerStyle}
+        onChange={(value) => updateSettings({ headerStyle: value })} />
+      <TextStyleControl
+        id="footerStyle"
+        label="Carattere piè di pagina"
+        value={footerStyle}
+        onChange={(value) => updateSettings({ footerStyle: value })} />
+      <div className={styles.control}>
+        <label htmlFor="customFont">Font personalizzato</label>
+        <input
+          id="customFont"
+          type="file"
+          accept=".ttf,.otf,font/ttf,font/otf"
+          onChange={(event) => updateSettings({ customFont: event.target.files?.[0] })} />
+        <small>Campo facoltativo. Un file TTF/OTF per alfabeti non coperti da Noto Sans (es. CJK).</small>
+      </div>
+      <hr className={styles.separator} />
+      <div className={styles.control}>
+        <label htmlFor="watermark">Filigrana</label>
+        <select
+          id="watermark"
+          value={watermark}
+          onChange={(event) => updateSettings({ watermark: event.target.value as WatermarkKind })}
+        >
+          {Object.entries(WATERMARK_KINDS).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+        <small>Per bozze e anteprime da mandare ai clienti.</small>
+      </div>
+      {watermark !== "none" && (
+        <>
+          {watermark === "text" ? (
+            <div className={styles.control}>
+              <label htmlFor="watermarkText">Testo filigrana</label>
+              <input
+                id="watermarkText"
+                type="text"
+                value={watermarkText}
+                onChange={(event) => updateSettings({ watermarkText: event.target.value })} />
+            </div>
+          ) : (
+            <div className={styles.control}>
+              <label htmlFor="watermarkImage">Immagine filigrana</label>
+              <input
+                id="watermarkImage"
+                type="file"
+                accept="image/*"
+                onChange={(event) => updateSettings({ watermarkImage: event.target.files?.[0] })} />
+              <small>Campo facoltativo. Senza immagine si usa il logo.</small>
+            </div>
+          )}
+          <TextStyleControl
+            id="watermarkStyle"
+            label={watermark === "text" ? "Carattere filigrana" : "Altezza filigrana"}
+            value={watermarkStyle}
+            max={200}
+            onChange={(value) => updateSettings({ watermarkStyle: value })} />
+          <div className={styles.control}>
+            <label htmlFor="watermarkColor">Colore, rotazione e opacità</label>
+            <div className={styles.inlineInputs}>
+              <input
+                id="watermarkColor"
+                type="color"
+                aria-label="Colore filigrana"
+                disabled={watermark !== "text"}
+                value={watermarkColor}
+                onChange={(event) => updateSettings({ watermarkColor: event.target.value })} />
+              <input
+                type="number"
+                aria-label="Rotazione filigrana (gradi)"
+                min={-180}
+                max={180}
+                value={watermarkRotation}
+                onChange={(event) =>
+                  updateSettings({ watermarkRotation: clampNumber(Number(event.target.value), -180, 180) })} />
+              <input
+                type="number"
+                aria-label="Opacità filigrana (%)"
+                min={5}
+                max={100}
+                step={5}
+                value={Math.round(watermarkOpacity * 100)}
+                onChange={(event) =>
+                  updateSettings({ watermarkOpacity: clampNumber(Number(event.target.value), 5, 100) / 100 })} />
+            </div>
+            <small>Rotazione in gradi, in senso antiorario; opacità in percentuale.</small>
+          </div>
+          <div className={styles.control}>
+            <label htmlFor="watermarkRepeat">Ripetizione filigrana</label>
+            <select
+              id="watermarkRepeat"
+              value={watermarkRepeat}
+              onChange={(event) => updateSettings({ watermarkRepeat: event.target.value as WatermarkRepeat })}
+            >
+              {Object.entries(WATERMARK_REPEATS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
     </div>
 
+    {layoutWarnings.length > 0 && (
+      <div className={styles.warnings}>
+        <ul>
+          {layoutWarnings.map((warning) => <li key={warning}>{warning}</li>)}
+        </ul>
+      </div>
+    )}
+
     <div className={styles.actions}>
       <button
         className={styles.primaryButton}
         type="button"
-        onClick={async () => await generatePdf({
-          uploads,
-          isBuilding,
-          setIsBuilding,
-          setStatus,
-          pageSize,
-          columns,
-          verticalPadding,
-          leftPadding,
-          rightPadding,
-          gutter,
-          maxSide,
-          jpegQuality,
-          fileName,
-          headerText,
-          footerText,
-          startingPageNumber,
-          logo,
-        })}
+        onClick={buildPdf}
         disabled={!uploads.length || isBuilding}
       >
         {isBuilding ? "Generazione..." : "Genera PDF"}
       </button>
+      {isBuilding && (
+        <button
+          className={styles.ghostButton}
+          type="button"
+          onClick={() => abortRef.current?.abort()}
+        >
+          Annulla
+        </button>
+      )}
+      {progress && <ProgressReport progress={progress} />}
       {status && <p className={styles.status}>{status}</p>}
     </div>
   </section>;
 };
 
-const clampNumber = (value: number, min: number, max: number) =>
-  Math.min(max, Math.max(min, value));
+const TextStyleControl: React.FC<{
+  id: string;
+  label: string;
+  value: TextStyle;
+  /** Largest size in pt. */
+  max?: number;
+  onChange: (value: TextStyle) => void;
+}> = ({ id, label, value, max = 36, onChange }) =>
+  <div className={styles.control}>
+    <label htmlFor={id}>{label}</label>
+    <div className={styles.inlineInputs}>
+      <select
+        id={id}
+        value={value.family}
+        onChange={(event) => onChange({ ...value, family: event.target.value as FontFamily })}
+      >
+        {Object.entries(FONT_FAMILIES).map(([key, label]) => (
+          <option key={key} value={key}>{label}</option>
+        ))}
+      </select>
+      <input
+        type="number"
+        aria-label={`${label}: dimensione (pt)`}
+        min={5}
+        max={max}
+        value={value.size}
+        onChange={(event) => onChange({ ...value, size: clampNumber(Number(event.target.value), 5, max) })} />
+    </div>
+    <small>Famiglia e dimensione in punti.</small>
+  </div>;
 
-const generateId = () =>
-  typeof crypto !== "undefined" && "randomUUID" in crypto
-    ? crypto.randomUUID()
-    : Math.random().toString(36).slice(2);
+const clampNumber = (value: number, min: number, max: number) =>
+  Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : min;
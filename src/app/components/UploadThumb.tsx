@@ -0,0 +1,188 @@
+"use client";
+
+import React, { DragEvent } from "react";
+import styles from "./page.module.css";
+import { CellSpan, ScaleMode, UploadItem } from "../lib/types";
+import { CELL_SPANS, SCALE_MODES } from "../lib/constants";
+import { formatMB } from "../lib/units";
+import { editedSize } from "../lib/edits";
+import { fitRect } from "../lib/layout";
+import { EditedImage } from "./EditedImage";
+
+interface Props {
+  upload: UploadItem;
+  index: number;
+  count: number;
+  isDropTarget: boolean;
+  removeImage: (id: string) => void;
+  moveImage: (id: string, toIndex: number) => void;
+  updateImage: (id: string, patch: Partial<UploadItem>) => void;
+  retryImage: (id: string) => Promise<void>;
+  editImage: (id: string) => void;
+  /** Whether the layout lets images span several cells. */
+  canSpan: boolean;
+  /** Caption the image gets when it has no override. */
+  autoCaption: string;
+  onDragOver: (event: DragEvent<HTMLDivElement>) => void;
+  onDrop: (event: DragEvent<HTMLDivElement>) => void;
+}
+
+export const DRAG_MIME = "application/x-glue-upload";
+
+export const UploadThumb: React.FC<Props> = ({
+  upload,
+  index,
+  count,
+  isDropTarget,
+  removeImage,
+  moveImage,
+  updateImage,
+  retryImage,
+  editImage,
+  canSpan,
+  autoCaption,
+  onDragOver,
+  onDrop,
+}) =>
+  <div
+    className={`${styles.thumb} ${isDropTarget ? styles.thumbDropTarget : ""} ${upload.error ? styles.thumbFailed : ""}`}
+    draggable
+    onDragStart={(event) => {
+      event.dataTransfer.setData(DRAG_MIME, upload.id);
+      event.dataTransfer.effectAllowed = "move";
+    }}
+    onDragOver={onDragOver}
+    onDrop={onDrop}
+  >
+    {upload.edits ? (
+      <div className={styles.thumbPicture}>
+        <EditedImage
+          src={upload.previewUrl}
+          alt={upload.name}
+          width={upload.width}
+          height={upload.height}
+          edits={upload.edits}
+          style={thumbBox(upload)} />
+      </div>
+    ) : (
+      <img src={upload.previewUrl} alt={upload.name} loading="lazy" draggable={false} />
+    )}
+    <div className={styles.thumbMeta}>
+      <div className={styles.thumbText}>
+        <strong>{index + 1}. {upload.name}</strong>
+        <span>{formatMB(upload.size)}</span>
+      </div>
+      <div className={styles.thumbActions}>
+        <button
+          className={styles.moveButton}
+          type="button"
+          aria-label={`Sposta ${upload.name} prima`}
+          disabled={index === 0}
+          onClick={() => moveImage(upload.id, index - 1)}
+        >
+          ↑
+        </button>
+        <button
+          className={styles.moveButton}
+          type="button"
+          aria-label={`Sposta ${upload.name} dopo`}
+          disabled={index === count - 1}
+          onClick={() => moveImage(upload.id, index + 1)}
+        >
+          ↓
+        </button>
+        <button
+          className={styles.moveButton}
+          type="button"
+          title="Ruota, specchia, ritaglia o correggi i toni"
+          onClick={() => editImage(upload.id)}
+        >
+          Modifica
+        </button>
+        {index > 0 && (
+          <button
+            className={styles.moveButton}
+            type="button"
+            aria-pressed={!!upload.pageBreak}
+            title="Manda questa immagine e le successive su una nuova pagina"
+            onClick={() => updateImage(upload.id, { pageBreak: upload.pageBreak ? undefined : true })}
+          >
+            {upload.pageBreak ? "Togli nuova pagina" : "Nuova pagina"}
+          </button>
+        )}
+        {upload.section === undefined && (
+          <button
+            className={styles.moveButton}
+            type="button"
+            title="Inizia una sezione da questa immagine"
+            onClick={() => updateImage(upload.id, { section: "Nuova sezione" })}
+          >
+            Nuova sezione
+          </button>
+        )}
+        <button
+          className={styles.remove}
+          type="button"
+          onClick={() => removeImage(upload.id)}
+        >
+          Rimuovi
+        </button>
+      </div>
+    </div>
+    {upload.error && (
+      <div className={styles.thumbError} role="alert">
+        <span>{upload.error}</span>
+        <button className={styles.moveButton} type="button" onClick={() => retryImage(upload.id)}>
+          Riprova
+        </button>
+      </div>
+    )}
+    <input
+      className={styles.captionInput}
+      type="text"
+      aria-label={`Didascalia di ${upload.name}`}
+      placeholder={autoCaption || "Didascalia"}
+      value={upload.caption ?? ""}
+      onChange={(event) => updateImage(upload.id, { caption: event.target.value })} />
+    <select
+      className={styles.thumbSelect}
+      aria-label={`Adattamento di ${upload.name}`}
+      value={upload.scaleMode ?? ""}
+      onChange={(event) =>
+        updateImage(upload.id, { scaleMode: (event.target.value || undefined) as ScaleMode | undefined })}
+    >
+      <option value="">Adattamento del documento</option>
+      {Object.entries(SCALE_MODES).map(([key, label]) => (
+        <option key={key} value={key}>{label}</option>
+      ))}
+    </select>
+    {canSpan && (
+      <select
+        className={styles.thumbSelect}
+        aria-label={`Celle occupate da ${upload.name}`}
+        value={upload.span ?? "1x1"}
+        onChange={(event) => {
+          const span = event.target.value as CellSpan;
+          updateImage(upload.id, { span: span === "1x1" ? undefined : span });
+        }}
+      >
+        {Object.entries(CELL_SPANS).map(([key, label]) => (
+          <option key={key} value={key}>{label}</option>
+        ))}
+      </select>
+    )}
+  </div>;
+
+const THUMB_ASPECT = 4 / 3;
+
+/** Edited picture fitted in the 4:3 thumbnail area. */
+const thumbBox = (upload: UploadItem) => {
+  const size = editedSize(upload.width, upload.height, upload.edits);
+  const box = fitRect({ x: 0, y: 0, width: THUMB_ASPECT, height: 1 }, size.width, size.height);
+  return {
+    left: `${(box.x / THUMB_ASPECT) * 100}%`,
+    bottom: `${box.y * 100}%`,
+    width: `${(box.width / THUMB_ASPECT) * 100}%`,
+    height: `${box.height * 100}%`,
+  };
+};
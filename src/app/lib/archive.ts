@@ -0,0 +1,110 @@
+import { unzip, Unzipped, zip, Zippable } from "fflate";
+import { StoredProject, StoredUpload, withDefaults } from "./storage";
+import { PdfSettings } from "./types";
+
+// Portable project file: a ZIP holding project.json and the original files.
+// Images are stored without compression since they already are compressed.
+
+const MANIFEST = "project.json";
+const ARCHIVE_VERSION = 1;
+
+type FileRef = { path: string; name: string; type: string; lastModified: number };
+
+type Manifest = {
+  version: number;
+  name: string;
+  settings: Omit<PdfSettings, "logo" | "customFont" | "watermarkImage"> & {
+    logo?: FileRef;
+    customFont?: FileRef;
+    watermarkImage?: FileRef;
+  };
+  uploads: (Omit<StoredUpload, "file"> & { file: FileRef })[];
+  mergePdfs?: FileRef[];
+};
+
+export const ARCHIVE_EXTENSION = ".zip";
+
+export class ArchiveError extends Error {}
+
+const safeName = (name: string) => name.replace(/[^\w.-]+/g, "_");
+
+export async function exportProject(project: StoredProject): Promise<Blob> {
+  const files: Zippable = {};
+  const addFile = async (folder: string, file: File, index: number): Promise<FileRef> => {
+    const path = `${folder}/${String(index + 1).padStart(4, "0")}-${safeName(file.name)}`;
+    files[path] = [new Uint8Array(await file.arrayBuffer()), { level: 0 }];
+    return { path, name: file.name, type: file.type, lastModified: file.lastModified };
+  };
+
+  const { logo, customFont, watermarkImage, ...settings } = project.settings;
+  const manifest: Manifest = {
+    version: ARCHIVE_VERSION,
+    name: project.name,
+    settings: {
+      ...settings,
+      logo: logo && await addFile("assets", logo, 0),
+      customFont: customFont && await addFile("assets", customFont, 1),
+      watermarkImage: watermarkImage && await addFile("assets", watermarkImage, 2),
+    },
+    uploads: await Promise.all(project.uploads.map(async (upload, index) => ({
+      ...upload,
+      file: await addFile("images", upload.file, index),
+    }))),
+    mergePdfs: await Promise.all((project.mergePdfs ?? []).map((file, index) => addFile("documents", file, index))),
+  };
+  files[MANIFEST] = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+
+  const bytes = await new Promise<Uint8Array>((resolve, reject) =>
+    zip(files, (error, data) => (error ? reject(error) : resolve(data))));
+  return new Blob([bytes as BlobPart], { type: "application/zip" });
+}
+
+/** Reads an archive made by `exportProject` into a new project with `id`. */
+export async function importProject(archive: File, id: string): Promise<StoredProject> {
+  let entries: Unzipped;
+  try {
+    const buffer = new Uint8Array(await archive.arrayBuffer());
+    entries = await new Promise<Unzipped>((resolve, reject) =>
+      unzip(buffer, (error, data) => (error ? reject(error) : resolve(data))));
+  } catch {
+    throw new ArchiveError("Il file non è un archivio ZIP valido.");
+  }
+  if (!entries[MANIFEST]) throw new ArchiveError("L'archivio non contiene un progetto.");
+
+  let manifest: Manifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(entries[MANIFEST]));
+  } catch {
+    throw new ArchiveError("La descrizione del progetto nell'archivio è danneggiata.");
+  }
+  if (
+    typeof manifest !== "object" || manifest === null ||
+    !Array.isArray(manifest.uploads) ||
+    typeof manifest.settings !== "object" || manifest.settings === null
+  ) {
+    throw new ArchiveError("La descrizione del progetto nell'archivio è incompleta.");
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new ArchiveError("Il progetto è stato creato con una versione più recente dell'app.");
+  }
+  const readFile = (ref: FileRef) => {
+    const data = typeof ref?.path === "string" ? entries[ref.path] : undefined;
+    if (!data) throw new ArchiveError(`Nell'archivio manca il file ${ref?.name ?? "di un'immagine"}.`);
+    return new File([data as BlobPart], ref.name, { type: ref.type, lastModified: ref.lastModified });
+  };
+
+  const { logo, customFont, watermarkImage, ...settings } = manifest.settings;
+  return withDefaults({
+    id,
+    name: manifest.name,
+    updatedAt: Date.now(),
+    settings: {
+      ...(settings as PdfSettings),
+      logo: logo && readFile(logo),
+      customFont: customFont && readFile(customFont),
+      watermarkImage: watermarkImage && readFile(watermarkImage),
+    },
+    uploads: manifest.uploads.map((upload) => ({ ...upload, file: readFile(upload.file) })),
+    mergePdfs: (Array.isArray(manifest.mergePdfs) ? manifest.mergePdfs : []).map(readFile),
+  });
+}
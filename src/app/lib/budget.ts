@@ -0,0 +1,144 @@
+import { computeLayout, DocumentLayout, toLayoutImages } from "./layout";
+import { editedSize, effectiveEdits } from "./edits";
+import { canPassThrough, targetSize } from "./processing";
+import { PdfSettings, UploadItem } from "./types";
+
+// Resolution planning and size estimates. Byte rates are averages measured
+// on phone photos; `calibration` scales them once a real build is known.
+
+export type ImagePlan = { maxSide: number; quality: number };
+
+export type SizePlan = {
+  /** Resize options by upload index. */
+  images: ImagePlan[];
+  /** Estimated PDF size in bytes. */
+  estimate: number;
+  /** Resolution images get on paper; undefined in manual mode. */
+  dpi?: number;
+  quality: number;
+};
+
+export const MB = 1024 * 1024;
+export const MIN_TARGET_DPI = 72;
+export const MAX_TARGET_DPI = 300;
+/** Below this the planner prefers lowering quality over resolution. */
+const PRINT_DPI = 150;
+const TARGET_QUALITIES = [0.9, 0.85, 0.8, 0.75, 0.7, 0.6, 0.5];
+
+const JPEG_BYTES_PER_PIXEL: [quality: number, bytes: number][] = [
+  [0.5, 0.09],
+  [0.6, 0.11],
+  [0.7, 0.14],
+  [0.8, 0.19],
+  [0.85, 0.23],
+  [0.9, 0.3],
+  [0.95, 0.45],
+];
+const PNG_BYTES_PER_PIXEL = 1.6;
+const PAGE_BYTES = 2_000;
+const DOCUMENT_BYTES = 60_000; // font subsets and document structure
+
+const jpegBytesPerPixel = (quality: number) => {
+  const upper = JPEG_BYTES_PER_PIXEL.findIndex(([q]) => q >= quality);
+  if (upper === -1) return JPEG_BYTES_PER_PIXEL[JPEG_BYTES_PER_PIXEL.length - 1][1];
+  if (upper === 0) return JPEG_BYTES_PER_PIXEL[0][1];
+  const [q0, b0] = JPEG_BYTES_PER_PIXEL[upper - 1];
+  const [q1, b1] = JPEG_BYTES_PER_PIXEL[upper];
+  return b0 + ((b1 - b0) * (quality - q0)) / (q1 - q0);
+};
+
+// `uploads` carry their effective edits.
+const estimateBytes = (
+  uploads: UploadItem[],
+  layout: DocumentLayout,
+  images: ImagePlan[],
+  calibration: number,
+) => {
+  let bytes = DOCUMENT_BYTES + layout.pages.length * PAGE_BYTES;
+  uploads.forEach((upload, index) => {
+    if (canPassThrough({ ...upload, type: upload.file.type }, { ...images[index], edits: upload.edits })) {
+      bytes += upload.size;
+      return;
+    }
+    const edited = editedSize(upload.width, upload.height, upload.edits);
+    const { width, height } = targetSize(edited.width, edited.height, images[index].maxSide);
+    const rate = upload.file.type === "image/png"
+      ? PNG_BYTES_PER_PIXEL
+      : jpegBytesPerPixel(images[index].quality);
+    bytes += width * height * rate * calibration;
+  });
+  return bytes;
+};
+
+/** Longest side, in pt, each upload is drawn at; the largest when drawn twice, as the cover hero is. */
+export const drawnSides = (uploads: UploadItem[], layout: DocumentLayout) => {
+  const sides = uploads.map(() => 0);
+  layout.pages.forEach((page) => page.images.forEach((placed) => {
+    sides[placed.index] = Math.max(sides[placed.index] ?? 0, placed.image.width, placed.image.height);
+  }));
+  return sides;
+};
+
+/** Pixels along the longest side needed to print `side` pt at `dpi`. */
+const pixelsFor = (side: number, dpi: number) => Math.ceil((side / 72) * dpi);
+
+/** Resolution the source image reaches when drawn with `side` pt as longest side. */
+export const effectiveDpi = (upload: Pick<UploadItem, "width" | "height" | "edits">, side: number) => {
+  const { width, height } = editedSize(upload.width, upload.height, upload.edits);
+  return side > 0 ? (Math.max(width, height) / side) * 72 : Infinity;
+};
+
+// Sources are never enlarged: `targetSize` caps at the original size.
+const plansAtDpi = (uploads: UploadItem[], sides: number[], dpi: number, quality: number) =>
+  uploads.map((_, index) => ({ maxSide: Math.max(1, pixelsFor(sides[index], dpi)), quality }));
+
+/**
+ * Resize options for every upload. In target mode each image gets pixels in
+ * proportion to the room it takes on the page: the highest quality that
+ * keeps at least 150 DPI under budget wins, otherwise resolution gives way.
+ */
+export const planSize = (
+  uploads: UploadItem[],
+  settings: PdfSettings,
+  calibration = 1,
+  layout = computeLayout(settings, toLayoutImages(uploads, settings)),
+): SizePlan => {
+  const sources = uploads.map((upload) => ({ ...upload, edits: effectiveEdits(upload, settings) }));
+  if (settings.sizeMode === "dpi") {
+    const images = plansAtDpi(uploads, drawnSides(uploads, layout), settings.targetDpi, settings.jpegQuality);
+    return {
+      images,
+      estimate: estimateBytes(sources, layout, images, calibration),
+      dpi: settings.targetDpi,
+      quality: settings.jpegQuality,
+    };
+  }
+  if (settings.sizeMode !== "target") {
+    const images = uploads.map(() => ({ maxSide: settings.maxSide, quality: settings.jpegQuality }));
+    return {
+      images,
+      estimate: estimateBytes(sources, layout, images, calibration),
+      quality: settings.jpegQuality,
+    };
+  }
+
+  const budget = settings.targetSizeMB * MB;
+  const sides = drawnSides(uploads, layout);
+  let best: SizePlan | undefined;
+  for (const quality of TARGET_QUALITIES) {
+    // Highest DPI that fits, by bisection.
+    let low = MIN_TARGET_DPI;
+    let high = MAX_TARGET_DPI;
+    for (let step = 0; step < 12; step++) {
+      const dpi = (low + high) / 2;
+      const fits = estimateBytes(sources, layout, plansAtDpi(uploads, sides, dpi, quality), calibration) <= budget;
+      if (fits) low = dpi;
+      else high = dpi;
+    }
+    const dpi = Math.floor(low);
+    const images = plansAtDpi(uploads, sides, dpi, quality);
+    best = { images, estimate: estimateBytes(sources, layout, images, calibration), dpi, quality };
+    if (dpi >= PRINT_DPI) break;
+  }
+  return best!;
+};
@@ -0,0 +1,59 @@
+import { CaptionMode, GeoPoint, UploadItem } from "./types";
+
+export const CAPTION_MODES: Record<CaptionMode, string> = {
+  none: "Nessuna",
+  filename: "Nome file",
+  template: "Modello personalizzato",
+};
+
+export const CAPTION_TOKENS = ["{name}", "{index}", "{date}", "{folder}", "{camera}", "{gps}"];
+
+const stripExtension = (name: string) => name.replace(/\.[^/.]+$/, "");
+
+export const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString("it-IT");
+
+export const formatDateTime = (time: number) =>
+  new Date(time).toLocaleString("it-IT", { dateStyle: "short", timeStyle: "short" });
+
+/** e.g. "45.46421° N, 9.18951° E". */
+export const formatCoordinates = ({ latitude, longitude }: GeoPoint) =>
+  `${Math.abs(latitude).toFixed(5)}° ${latitude < 0 ? "S" : "N"}, ` +
+  `${Math.abs(longitude).toFixed(5)}° ${longitude < 0 ? "O" : "E"}`;
+
+/** Values available to caption templates for the upload at `index`. */
+export const captionTokens = (upload: UploadItem, index: number): Record<string, string> => ({
+  name: stripExtension(upload.name),
+  index: String(index + 1),
+  date: formatDate(upload.capturedAt ?? upload.file.lastModified),
+  folder: upload.folder ?? "",
+  camera: upload.camera ?? "",
+  gps: upload.location ? formatCoordinates(upload.location) : "",
+});
+
+export const fillTemplate = (template: string, tokens: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => tokens[key] ?? match);
+
+/** The caption printed under an image, honouring per-image overrides. */
+export const captionFor = (
+  upload: UploadItem,
+  index: number,
+  settings: { captionMode: CaptionMode; captionTemplate: string },
+) => {
+  if (upload.caption?.trim()) return upload.caption.trim();
+  switch (settings.captionMode) {
+    case "none":
+      return "";
+    case "filename":
+      return stripExtension(upload.name);
+    case "template":
+      return fillTemplate(settings.captionTemplate, captionTokens(upload, index)).trim();
+  }
+};
+
+/** Capture date and place for the optional info line; empty without EXIF. */
+export const exifInfo = (upload: UploadItem) =>
+  [
+    upload.capturedAt !== undefined ? formatDateTime(upload.capturedAt) : "",
+    upload.location ? formatCoordinates(upload.location) : "",
+  ].filter(Boolean).join(" · ");
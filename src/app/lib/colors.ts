@@ -0,0 +1,13 @@
+/** Parses `#rgb` or `#rrggbb` into 0–1 channels; anything else is black. */
+export const parseHexColor = (hex: string) => {
+  const value = hex.trim().replace(/^#/, "");
+  const full = value.length === 3
+    ? Array.from(value).map((char) => char + char).join("")
+    : value;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return { r: 0, g: 0, b: 0 };
+  return {
+    r: parseInt(full.slice(0, 2), 16) / 255,
+    g: parseInt(full.slice(2, 4), 16) / 255,
+    b: parseInt(full.slice(4, 6), 16) / 255,
+  };
+};
@@ -1,8 +1,229 @@
-import { PagePresetKey } from "./types";
+import {
+    CellAspect,
+    CellSpan,
+    CutMarks,
+    GridFillOrder,
+    GridVerticalAlign,
+    LayoutMode,
+    LogoPosition,
+    MergeNumbering,
+    MergePosition,
+    PageNumberFormat,
+    PagePresetKey,
+    PdfSettings,
+    PrintSizeKey,
+    ScaleMode,
+    SectionBreak,
+    SizeMode,
+    TransparencyMode,
+    WatermarkKind,
+    WatermarkRepeat,
+} from "./types";
 
+// Sizes in mm, portrait.
 export const PAGE_PRESETS: Record<
     PagePresetKey, { width: number; height: number; label: string; }
 > = {
+    a3: { width: 297, height: 420, label: "A3" },
     a4: { width: 210, height: 297, label: "A4" },
+    a5: { width: 148, height: 210, label: "A5" },
+    b5: { width: 176, height: 250, label: "B5" },
     letter: { width: 216, height: 279, label: "Letter" },
+    legal: { width: 216, height: 356, label: "Legal" },
+    tabloid: { width: 279, height: 432, label: "Tabloid" },
+    "photo-10x15": { width: 100, height: 150, label: "Carta foto 10×15 cm" },
+    "photo-13x18": { width: 130, height: 180, label: "Carta foto 13×18 cm" },
+};
+
+export const DEFAULT_SETTINGS: PdfSettings = {
+    pageSize: "a4",
+    orientation: "portrait",
+    customPageWidth: 210,
+    customPageHeight: 297,
+    lengthUnit: "mm",
+    layoutMode: "grid",
+    columns: 3,
+    verticalPadding: 11,
+    leftPadding: 11,
+    rightPadding: 11,
+    mirrorMargins: false,
+    gutter: 4,
+    sizeMode: "manual",
+    targetSizeMB: 10,
+    targetDpi: 300,
+    maxSide: 1600,
+    jpegQuality: 0.85,
+    transparency: "keep",
+    backgroundColor: "#ffffff",
+    fileName: "risultato.pdf",
+    headerText: "",
+    headerLeft: "",
+    headerRight: "",
+    footerText: "",
+    footerLeft: "",
+    footerRight: "{page}",
+    startingPageNumber: 1,
+    pageNumberFormat: "arabic",
+    logoPosition: "header-center",
+    captionStyle: { family: "noto-sans", size: 10 },
+    headerStyle: { family: "noto-sans", size: 8 },
+    footerStyle: { family: "noto-sans", size: 8 },
+    captionMode: "filename",
+    captionTemplate: "{index}. {name}",
+    captionPosition: "below",
+    captionAlign: "center",
+    captionMaxLines: 2,
+    showExifInfo: false,
+    cellAspect: "1:1",
+    fillOrder: "rows",
+    rightToLeft: false,
+    centerLastRow: false,
+    verticalAlign: "top",
+    maxRowsPerPage: 0,
+    scaleMode: "fit",
+    grayscale: false,
+    printSize: "10x15",
+    customPrintWidth: 100,
+    customPrintHeight: 150,
+    printBleed: 0,
+    cutMarks: "corners",
+    sectionBreak: "page",
+    tableOfContents: false,
+    coverPage: false,
+    documentTitle: "",
+    documentSubtitle: "",
+    documentAuthor: "",
+    documentDate: "",
+    documentSubject: "",
+    documentKeywords: "",
+    numberCover: false,
+    mergePosition: "after",
+    mergePage: 2,
+    mergeNumbering: "new",
+    watermark: "none",
+    watermarkText: "BOZZA",
+    watermarkStyle: { family: "helvetica", size: 60 },
+    watermarkColor: "#808080",
+    watermarkRotation: 45,
+    watermarkOpacity: 0.3,
+    watermarkRepeat: "page",
+};
+
+export const LAYOUT_MODES: Record<LayoutMode, string> = {
+    grid: "Griglia",
+    justified: "Righe giustificate",
+    masonry: "Colonne (masonry)",
+    print: "Stampa foto in misura reale",
+};
+
+// Sizes in mm, portrait; prints are turned when that fits more per sheet.
+export const PRINT_SIZES: Record<
+    Exclude<PrintSizeKey, "custom">, { width: number; height: number; label: string; }
+> = {
+    "9x13": { width: 90, height: 130, label: "9×13 cm" },
+    "10x15": { width: 100, height: 150, label: "10×15 cm" },
+    "13x18": { width: 130, height: 180, label: "13×18 cm" },
+    "15x20": { width: 150, height: 200, label: "15×20 cm" },
+    passport: { width: 35, height: 45, label: "Fototessera 35×45 mm" },
+};
+
+export const CUT_MARKS: Record<CutMarks, string> = {
+    none: "Nessuna",
+    lines: "Linee di taglio",
+    corners: "Crocini agli angoli",
+};
+
+export const FILL_ORDERS: Record<GridFillOrder, string> = {
+    rows: "Per righe",
+    columns: "Per colonne",
+};
+
+export const VERTICAL_ALIGNS: Record<GridVerticalAlign, string> = {
+    top: "In alto",
+    center: "Al centro",
+    distribute: "Distribuite sulla pagina",
+};
+
+export const CELL_SPANS: Record<CellSpan, string> = {
+    "1x1": "1 cella",
+    "2x1": "2×1, larga",
+    "1x2": "1×2, alta",
+    "2x2": "2×2, grande",
+};
+
+export const CELL_ASPECTS: Record<CellAspect, string> = {
+    "1:1": "Quadrata",
+    "4:3": "4:3 orizzontale",
+    "3:4": "3:4 verticale",
+    "3:2": "3:2 orizzontale",
+    "2:3": "2:3 verticale",
+    "16:9": "16:9 orizzontale",
+    "9:16": "9:16 verticale",
+    auto: "Automatica (dalla maggior parte delle immagini)",
+    "fill-page": "Righe estese all'altezza della pagina",
+};
+
+export const SCALE_MODES: Record<ScaleMode, string> = {
+    fit: "Adatta (bande vuote)",
+    fill: "Riempi (ritaglio centrato)",
+    crop: "Ritaglio manuale",
+};
+
+export const SIZE_MODES: Record<SizeMode, string> = {
+    manual: "Lato massimo e qualità",
+    dpi: "Risoluzione di stampa (DPI)",
+    target: "Dimensione massima del file",
+};
+
+export const SECTION_BREAKS: Record<SectionBreak, string> = {
+    none: "Di seguito alle immagini precedenti",
+    page: "Su una nuova pagina",
+    title: "Su una nuova pagina, dopo una pagina con il titolo",
+};
+
+export const MERGE_POSITIONS: Record<MergePosition, string> = {
+    before: "Prima dei PDF esistenti",
+    after: "Dopo i PDF esistenti",
+    at: "Dentro, a partire dalla pagina",
+};
+
+export const MERGE_NUMBERINGS: Record<MergeNumbering, string> = {
+    new: "Solo sulle pagine nuove",
+    continue: "Su tutto il documento, con numerazione continua",
+};
+
+export const PAGE_NUMBER_FORMATS: Record<PageNumberFormat, string> = {
+    arabic: "1, 2, 3",
+    roman: "i, ii, iii",
+    "roman-upper": "I, II, III",
+};
+
+export const LOGO_POSITIONS: Record<LogoPosition, string> = {
+    "header-left": "Intestazione, a sinistra",
+    "header-center": "Intestazione, al centro",
+    "header-right": "Intestazione, a destra",
+    "footer-left": "Piè di pagina, a sinistra",
+    "footer-center": "Piè di pagina, al centro",
+    "footer-right": "Piè di pagina, a destra",
+    none: "Solo in copertina",
+};
+
+export const PRINT_DPIS = [150, 200, 300];
+
+export const TRANSPARENCY_MODES: Record<TransparencyMode, string> = {
+    keep: "Mantieni (PNG)",
+    flatten: "Riempi con un colore",
+};
+
+export const DEFAULT_CROP = { x: 0.5, y: 0.5, zoom: 1 };
+
+export const WATERMARK_KINDS: Record<WatermarkKind, string> = {
+    none: "Nessuna",
+    text: "Testo",
+    image: "Immagine",
+};
+
+export const WATERMARK_REPEATS: Record<WatermarkRepeat, string> = {
+    page: "Una volta per pagina",
+    image: "Ripetuta su ogni immagine",
 };
@@ -0,0 +1,114 @@
+// Turns selected files into images the browser can draw. HEIC/HEIF and TIFF
+// are converted once at import; the rest is decoded natively.
+
+import { drawScaled, orientedSize } from "./processing";
+
+export const ACCEPTED_FILES = "image/*,.heic,.heif,.tif,.tiff,.avif,.webp";
+
+export type RejectedFile = { name: string; reason: string };
+
+export class UnsupportedFileError extends Error {}
+
+type SourceKind = "heic" | "tiff" | "native" | "other";
+
+const extension = (name: string) => name.split(".").pop()?.toLowerCase() ?? "";
+
+const stripExtension = (name: string) => name.replace(/\.[^/.]+$/, "");
+
+// Some systems report HEIC files with an empty MIME type.
+const sourceKind = (file: File): SourceKind => {
+  const ext = extension(file.name);
+  if (/^image\/hei[cf]/.test(file.type) || ext === "heic" || ext === "heif") return "heic";
+  if (file.type === "image/tiff" || ext === "tif" || ext === "tiff") return "tiff";
+  if (file.type.startsWith("image/") || ext === "avif" || ext === "webp") return "native";
+  return "other";
+};
+
+/**
+ * One or more browser-decodable files for `file`: multi-page TIFFs yield
+ * one PNG per page. Throws `UnsupportedFileError` with a reason otherwise.
+ */
+export async function decodeUpload(file: File): Promise<File[]> {
+  switch (sourceKind(file)) {
+    case "heic":
+      return [await convertHeic(file)];
+    case "tiff":
+      return await convertTiff(file);
+    case "native":
+      return [file];
+    case "other":
+      throw new UnsupportedFileError("Non è un'immagine.");
+  }
+}
+
+const convertHeic = async (file: File) => {
+  const { default: heic2any } = await import("heic2any");
+  try {
+    const converted = await heic2any({ blob: file, toType: "image/jpeg", quality: 0.92 });
+    const blob = Array.isArray(converted) ? converted[0] : converted;
+    return new File([blob], `${stripExtension(file.name)}.jpg`, {
+      type: "image/jpeg",
+      lastModified: file.lastModified,
+    });
+  } catch {
+    throw new UnsupportedFileError("File HEIC/HEIF non leggibile.");
+  }
+};
+
+const convertTiff = async (file: File) => {
+  const UTIF = await import("utif");
+  const buffer = await file.arrayBuffer();
+  let pages;
+  try {
+    // IFDs without an image width hold only metadata.
+    pages = UTIF.decode(buffer).filter((ifd) => ifd.t256 !== undefined);
+  } catch {
+    throw new UnsupportedFileError("File TIFF non leggibile.");
+  }
+  if (!pages.length) throw new UnsupportedFileError("Il file TIFF non contiene immagini.");
+
+  const stem = stripExtension(file.name);
+  const files: File[] = [];
+  for (const [page, ifd] of pages.entries()) {
+    try {
+      UTIF.decodeImage(buffer, ifd);
+      const rgba = UTIF.toRGBA8(ifd);
+      // Each page is turned upright by its own orientation tag: the PNG keeps no EXIF.
+      const orientation = (ifd.t274 as number[] | undefined)?.[0];
+      const blob = await rgbaToPng(rgba, ifd.width, ifd.height, orientation);
+      const name = pages.length > 1 ? `${stem} (pagina ${page + 1}).png` : `${stem}.png`;
+      files.push(new File([blob], name, { type: "image/png", lastModified: file.lastModified }));
+    } catch {
+      throw new UnsupportedFileError(`Pagina ${page + 1} del TIFF non leggibile (compressione non supportata).`);
+    }
+  }
+  return files;
+};
+
+const rgbaToPng = (rgba: Uint8Array, width: number, height: number, orientation = 1) => {
+  const source = document.createElement("canvas");
+  source.width = width;
+  source.height = height;
+  const sourceContext = source.getContext("2d");
+  if (!sourceContext) throw new Error("Canvas not supported in this browser.");
+  sourceContext.putImageData(new ImageData(new Uint8ClampedArray(rgba.buffer as ArrayBuffer, rgba.byteOffset, rgba.length), width, height), 0, 0);
+
+  const upright = orientedSize(width, height, orientation);
+  const canvas = document.createElement("canvas");
+  canvas.width = upright.width;
+  canvas.height = upright.height;
+  drawScaled(canvas.getContext("2d"), source, upright.width, upright.height, { orientation });
+  source.width = 0;
+  source.height = 0;
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      canvas.width = 0;
+      canvas.height = 0;
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error("Unable to encode image."));
+      }
+    }, "image/png");
+  });
+};
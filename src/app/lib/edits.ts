@@ -0,0 +1,63 @@
+import { ImageEdits, PdfSettings, UploadItem } from "./types";
+
+// Per-image edits, shared by the image pipelines, the layout and the preview.
+
+export const NO_EDITS: ImageEdits = {
+  quarterTurns: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  cropBox: { x: 0, y: 0, width: 1, height: 1 },
+  grayscale: false,
+  brightness: 100,
+  contrast: 100,
+};
+
+export const changesTones = (edits: ImageEdits) =>
+  edits.grayscale || edits.brightness !== 100 || edits.contrast !== 100;
+
+export const hasEdits = (edits?: ImageEdits): edits is ImageEdits =>
+  !!edits &&
+  (edits.quarterTurns % 4 !== 0 ||
+    edits.flipHorizontal ||
+    edits.flipVertical ||
+    edits.cropBox.width < 1 ||
+    edits.cropBox.height < 1 ||
+    changesTones(edits));
+
+/** Edits of an upload, with the document-wide grayscale on top. */
+export const effectiveEdits = (
+  upload: Pick<UploadItem, "edits">,
+  settings: Pick<PdfSettings, "grayscale">,
+) => {
+  const edits = settings.grayscale ? { ...NO_EDITS, ...upload.edits, grayscale: true } : upload.edits;
+  return hasEdits(edits) ? edits : undefined;
+};
+
+/** Size of a `width`×`height` upright image once turned and cropped. */
+export const editedSize = (width: number, height: number, edits?: ImageEdits) => {
+  if (!edits) return { width, height };
+  const turned = edits.quarterTurns % 2 ? { width: height, height: width } : { width, height };
+  return { width: turned.width * edits.cropBox.width, height: turned.height * edits.cropBox.height };
+};
+
+/** CSS filter showing the tone edits. */
+export const editFilter = (edits?: ImageEdits) =>
+  edits && changesTones(edits)
+    ? `grayscale(${edits.grayscale ? 1 : 0}) brightness(${edits.brightness}%) contrast(${edits.contrast}%)`
+    : undefined;
+
+/** Applies the tone edits to RGBA pixels, like `editFilter` does in CSS. */
+export const adjustTones = (data: Uint8ClampedArray, edits: ImageEdits) => {
+  const brightness = edits.brightness / 100;
+  const contrast = edits.contrast / 100;
+  const tone = (value: number) => (value * brightness - 128) * contrast + 128;
+  for (let i = 0; i < data.length; i += 4) {
+    let [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    if (edits.grayscale) {
+      r = g = b = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    }
+    data[i] = tone(r);
+    data[i + 1] = tone(g);
+    data[i + 2] = tone(b);
+  }
+};
@@ -0,0 +1,309 @@
+// Minimal EXIF reader for JPEG, HEIC/HEIF and TIFF files. Only the tags the
+// app uses are decoded.
+
+import { GeoPoint } from "./types";
+
+export type ExifData = {
+  capturedAt?: number;
+  /** EXIF orientation, 1 (upright) to 8. */
+  orientation?: number;
+  /** Camera make and model, e.g. "Apple iPhone 13". */
+  camera?: string;
+  location?: GeoPoint;
+};
+
+const EXIF_SCAN_BYTES = 256 * 1024;
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+/**
+ * Reads the metadata of the original file, before any conversion: the HEIC
+ * decoder drops it. The format is told by the content, not the MIME type.
+ */
+export async function readExif(file: File): Promise<ExifData> {
+  try {
+    const buffer = await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer();
+    const view = new DataView(buffer);
+    if (view.byteLength < 12) return {};
+    if (view.getUint16(0) === 0xffd8) return parseExif(buffer);
+    if (isTiff(view, 0)) {
+      // TIFF often stores its directories after the pixels. Conversion
+      // already turns every page upright by its own tag.
+      return { ...parseTiff(new DataView(await file.arrayBuffer()), 0), orientation: undefined };
+    }
+    if (readAscii(view, 4, 4) === "ftyp") {
+      const location = heifExifLocation(view);
+      if (!location) return {};
+      const exif = new DataView(
+        await file.slice(location.offset, location.offset + location.length).arrayBuffer(),
+      );
+      // The Exif item starts with the offset of the TIFF header past its first 4 bytes.
+      if (exif.byteLength < 4) return {};
+      const tiffStart = 4 + exif.getUint32(0);
+      if (!isTiff(exif, tiffStart)) return {};
+      // The HEIC decoder already applies the image's own rotation.
+      return { ...parseTiff(exif, tiffStart), orientation: undefined };
+    }
+    return {};
+  } catch {
+    return {};
+  }
+}
+
+export const parseExif = (buffer: ArrayBuffer): ExifData => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {};
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if ((marker & 0xff00) !== 0xff00) return {};
+    if (marker === 0xffe1 && readAscii(view, offset + 4, 6) === "Exif\0\0") {
+      return parseTiff(view, offset + 10);
+    }
+    // Start of scan: no more metadata segments.
+    if (marker === 0xffda) return {};
+    offset += 2 + length;
+  }
+  return {};
+};
+
+const isTiff = (view: DataView, start: number) => {
+  if (start + 8 > view.byteLength) return false;
+  const order = view.getUint16(start);
+  return (order === 0x4949 || order === 0x4d4d) && view.getUint16(start + 2, order === 0x4949) === 42;
+};
+
+type Box = { type: string; start: number; end: number };
+
+/** ISO BMFF boxes between `start` and `end`; a box running past the buffer ends the list. */
+const readBoxes = (view: DataView, start: number, end: number) => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+    boxes.push({ type: readAscii(view, offset + 4, 4), start: offset + header, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return boxes;
+};
+
+/** Unsigned big-endian integer of 0, 2, 4 or 8 bytes. */
+const readUint = (view: DataView, offset: number, size: number) => {
+  switch (size) {
+    case 0:
+      return 0;
+    case 2:
+      return view.getUint16(offset);
+    case 4:
+      return view.getUint32(offset);
+    default:
+      return Number(view.getBigUint64(offset));
+  }
+};
+
+/**
+ * Where the Exif item of a HEIC/HEIF file lies in the file: its id comes
+ * from the item info box, its extent from the item location box.
+ */
+const heifExifLocation = (view: DataView) => {
+  const meta = readBoxes(view, 0, view.byteLength).find((box) => box.type === "meta");
+  if (!meta) return undefined;
+  // meta is a full box: version and flags come first.
+  const children = readBoxes(view, meta.start + 4, meta.end);
+  const iinf = children.find((box) => box.type === "iinf");
+  const iloc = children.find((box) => box.type === "iloc");
+  if (!iinf || !iloc) return undefined;
+
+  const infoVersion = view.getUint8(iinf.start);
+  const entries = readBoxes(view, iinf.start + (infoVersion === 0 ? 6 : 8), iinf.end);
+  const exifId = entries
+    .filter((box) => box.type === "infe" && view.getUint8(box.start) >= 2)
+    .map((box) => {
+      const wideId = view.getUint8(box.start) >= 3;
+      const idSize = wideId ? 4 : 2;
+      return {
+        id: readUint(view, box.start + 4, idSize),
+        type: readAscii(view, box.start + 4 + idSize + 2, 4),
+      };
+    })
+    .find((item) => item.type === "Exif")?.id;
+  if (exifId === undefined) return undefined;
+
+  const version = view.getUint8(iloc.start);
+  let offset = iloc.start + 4;
+  const sizes = view.getUint16(offset);
+  const offsetSize = sizes >> 12;
+  const lengthSize = (sizes >> 8) & 0xf;
+  const baseOffsetSize = (sizes >> 4) & 0xf;
+  const indexSize = version === 1 || version === 2 ? sizes & 0xf : 0;
+  offset += 2;
+  const itemCount = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+  offset += version < 2 ? 2 : 4;
+  for (let item = 0; item < itemCount && offset < iloc.end; item++) {
+    const id = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+    offset += version < 2 ? 2 : 4;
+    // Only items stored in the file itself (construction method 0) are read.
+    const method = version === 1 || version === 2 ? view.getUint16(offset) & 0xf : 0;
+    if (version === 1 || version === 2) offset += 2;
+    offset += 2; // data reference index
+    const baseOffset = readUint(view, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extentCount = view.getUint16(offset);
+    offset += 2;
+    const extents = Array.from({ length: extentCount }, () => {
+      offset += indexSize;
+      const extent = {
+        offset: baseOffset + readUint(view, offset, offsetSize),
+        length: readUint(view, offset + offsetSize, lengthSize),
+      };
+      offset += offsetSize + lengthSize;
+      return extent;
+    });
+    if (id === exifId) return method === 0 && extents.length === 1 ? extents[0] : undefined;
+  }
+  return undefined;
+};
+
+const parseTiff = (view: DataView, start: number): ExifData => {
+  const littleEndian = view.getUint16(start) === 0x4949;
+  const ifd0 = readIfd(view, start, view.getUint32(start + 4, littleEndian), littleEndian);
+  const exifOffset = ifd0.get(TAG_EXIF_IFD)?.value;
+  const exifIfd = exifOffset !== undefined
+    ? readIfd(view, start, exifOffset, littleEndian)
+    : new Map<number, IfdEntry>();
+  const gpsOffset = ifd0.get(TAG_GPS_IFD)?.value;
+  const gpsIfd = gpsOffset !== undefined
+    ? readIfd(view, start, gpsOffset, littleEndian)
+    : new Map<number, IfdEntry>();
+
+  const rawDate =
+    readString(view, start, exifIfd.get(TAG_DATE_TIME_ORIGINAL)) ??
+    readString(view, start, ifd0.get(TAG_DATE_TIME));
+  const orientation = ifd0.get(TAG_ORIENTATION)?.value;
+
+  return {
+    capturedAt: rawDate ? parseExifDate(rawDate) : undefined,
+    orientation: orientation && orientation >= 1 && orientation <= 8 ? orientation : undefined,
+    camera: cameraName(
+      readString(view, start, ifd0.get(TAG_MAKE)),
+      readString(view, start, ifd0.get(TAG_MODEL)),
+    ),
+    location: readLocation(view, start, gpsIfd, littleEndian),
+  };
+};
+
+/** Joins make and model, which often repeats the make ("Canon Canon EOS R6"). */
+const cameraName = (make?: string, model?: string) => {
+  const cleanMake = make?.trim() ?? "";
+  const cleanModel = model?.trim() ?? "";
+  if (cleanModel.toLowerCase().startsWith(cleanMake.toLowerCase())) {
+    return cleanModel || undefined;
+  }
+  return `${cleanMake} ${cleanModel}`.trim() || undefined;
+};
+
+const readLocation = (
+  view: DataView,
+  tiffStart: number,
+  gpsIfd: Map<number, IfdEntry>,
+  littleEndian: boolean,
+): GeoPoint | undefined => {
+  const latitude = readDegrees(view, tiffStart, gpsIfd.get(TAG_GPS_LATITUDE), littleEndian);
+  const longitude = readDegrees(view, tiffStart, gpsIfd.get(TAG_GPS_LONGITUDE), littleEndian);
+  if (latitude === undefined || longitude === undefined) return undefined;
+  const south = readString(view, tiffStart, gpsIfd.get(TAG_GPS_LATITUDE_REF)) === "S";
+  const west = readString(view, tiffStart, gpsIfd.get(TAG_GPS_LONGITUDE_REF)) === "W";
+  return {
+    latitude: south ? -latitude : latitude,
+    longitude: west ? -longitude : longitude,
+  };
+};
+
+/** Degrees, minutes and seconds stored as three RATIONALs. */
+const readDegrees = (
+  view: DataView,
+  tiffStart: number,
+  entry: IfdEntry | undefined,
+  littleEndian: boolean,
+) => {
+  if (!entry || entry.type !== 5 || entry.count !== 3) return undefined;
+  const offset = tiffStart + entry.value;
+  if (offset + 24 > view.byteLength) return undefined;
+  const [degrees, minutes, seconds] = [0, 1, 2].map((i) => {
+    const denominator = view.getUint32(offset + i * 8 + 4, littleEndian);
+    return denominator ? view.getUint32(offset + i * 8, littleEndian) / denominator : 0;
+  });
+  return degrees + minutes / 60 + seconds / 3600;
+};
+
+type IfdEntry = { type: number; count: number; value: number; valueOffset: number };
+
+const readIfd = (
+  view: DataView,
+  tiffStart: number,
+  ifdOffset: number,
+  littleEndian: boolean,
+) => {
+  const entries = new Map<number, IfdEntry>();
+  const base = tiffStart + ifdOffset;
+  if (base + 2 > view.byteLength) return entries;
+  const count = view.getUint16(base, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = base + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    // SHORT values are left-aligned in the 4-byte field.
+    const value = type === 3
+      ? view.getUint16(entry + 8, littleEndian)
+      : view.getUint32(entry + 8, littleEndian);
+    entries.set(tag, { type, count: valueCount, value, valueOffset: entry + 8 });
+  }
+  return entries;
+};
+
+const readString = (view: DataView, tiffStart: number, entry?: IfdEntry) => {
+  if (!entry || entry.type !== 2) return undefined;
+  const offset = entry.count > 4 ? tiffStart + entry.value : entry.valueOffset;
+  if (offset + entry.count > view.byteLength) return undefined;
+  return readAscii(view, offset, entry.count).replace(/\0+$/, "");
+};
+
+const readAscii = (view: DataView, offset: number, length: number) => {
+  let text = "";
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    text += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return text;
+};
+
+/** EXIF dates look like "2024:05:18 14:03:22" and carry no time zone. */
+const parseExifDate = (value: string) => {
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return Number.isNaN(date.getTime()) ? undefined : date.getTime();
+};
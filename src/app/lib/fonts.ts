@@ -0,0 +1,131 @@
+import fontkit from "@pdf-lib/fontkit";
+import { PDFDocument, PDFFont, StandardFonts } from "pdf-lib";
+import { FontFamily } from "./types";
+
+export const FONT_FAMILIES: Record<FontFamily, string> = {
+  helvetica: "Helvetica (solo caratteri latini)",
+  "noto-sans": "Noto Sans (incluso, senza CJK ed emoji)",
+  custom: "Font caricato (TTF/OTF)",
+};
+
+/** CSS font stacks used by the preview for each family. */
+export const PREVIEW_FONT_STACKS: Record<FontFamily, string> = {
+  helvetica: "Helvetica, Arial, sans-serif",
+  "noto-sans": "\"Glue Noto Sans\", sans-serif",
+  custom: "\"Glue Custom Font\", \"Glue Noto Sans\", sans-serif",
+};
+
+export const CUSTOM_FONT_FACE = "Glue Custom Font";
+
+const BUNDLED_FONT_URL = "/fonts/NotoSans-Regular.ttf";
+const REPLACEMENT_CHARACTER = "?";
+
+let bundledFontBytes: Promise<ArrayBuffer> | null = null;
+
+const loadBundledFont = () => {
+  bundledFontBytes ??= fetch(BUNDLED_FONT_URL).then((response) => {
+    if (!response.ok) throw new Error(`Unable to load ${BUNDLED_FONT_URL}.`);
+    return response.arrayBuffer();
+  });
+  return bundledFontBytes;
+};
+
+let bundledCharacters: Promise<Set<number>> | null = null;
+
+/** Code points the bundled Noto Sans can draw. */
+export const loadBundledCharacters = () => {
+  bundledCharacters ??= loadBundledFont().then((bytes) =>
+    new Set(fontkit.create(new Uint8Array(bytes)).characterSet));
+  return bundledCharacters;
+};
+
+/**
+ * Characters the PDF will replace: those the bundled font lacks (CJK
+ * scripts and emoji among them), in texts not set in an uploaded font.
+ */
+export const replacedCharacters = (
+  texts: { text: string; family: FontFamily }[],
+  bundled: Set<number>,
+  customFont?: File,
+) => {
+  const replaced = new Set<string>();
+  texts
+    .filter(({ family }) => family !== "custom" || !customFont)
+    .forEach(({ text }) => Array.from(text).forEach((char) => {
+      if (!/\s/.test(char) && !bundled.has(char.codePointAt(0)!)) replaced.add(char);
+    }));
+  return Array.from(replaced);
+};
+
+export type ResolvedText = { font: PDFFont; text: string };
+
+/**
+ * Embeds the requested families (subset to the glyphs actually drawn) and
+ * picks, for every string, a font that can encode it. Strings the chosen
+ * family cannot encode fall back to the bundled Unicode font; characters no
+ * embedded font covers are replaced and collected in `missing`. An unreadable
+ * uploaded font is reported in `warnings` rather than failing the document.
+ */
+export async function createFontResolver(
+  pdfDoc: PDFDocument,
+  families: FontFamily[],
+  customFont?: File,
+) {
+  pdfDoc.registerFontkit(fontkit);
+
+  const fonts = new Map<FontFamily, PDFFont>();
+  const warnings: string[] = [];
+  const fallback = await pdfDoc.embedFont(await loadBundledFont(), { subset: true });
+  fonts.set("noto-sans", fallback);
+
+  for (const family of new Set(families)) {
+    if (fonts.has(family)) continue;
+    if (family === "helvetica") {
+      fonts.set(family, pdfDoc.embedStandardFont(StandardFonts.Helvetica));
+    } else if (family === "custom" && customFont) {
+      try {
+        fonts.set(family, await pdfDoc.embedFont(await customFont.arrayBuffer(), { subset: true }));
+      } catch (error) {
+        console.error(error);
+        warnings.push(`Il font "${customFont.name}" non è leggibile: è stato usato Noto Sans.`);
+      }
+    }
+  }
+
+  const characterSets = new Map<PDFFont, Set<number>>();
+  const supports = (font: PDFFont, codePoint: number) => {
+    let set = characterSets.get(font);
+    if (!set) {
+      set = new Set(font.getCharacterSet());
+      characterSets.set(font, set);
+    }
+    return set.has(codePoint);
+  };
+
+  const missing = new Set<string>();
+
+  const resolve = (family: FontFamily, text: string): ResolvedText => {
+    const primary = fonts.get(family) ?? fallback;
+    const characters = Array.from(text);
+    const encodable = (font: PDFFont) =>
+      characters.every((char) => char === "\n" || supports(font, char.codePointAt(0)!));
+
+    if (encodable(primary)) return { font: primary, text };
+    if (encodable(fallback)) return { font: fallback, text };
+
+    // An uploaded font was chosen on purpose: keep it and mark the gaps.
+    const font = family === "custom" ? primary : fallback;
+    const cleaned = characters
+      .map((char) => {
+        if (char === "\n" || supports(font, char.codePointAt(0)!)) return char;
+        missing.add(char);
+        return REPLACEMENT_CHARACTER;
+      })
+      .join("");
+    return { font, text: cleaned };
+  };
+
+  return { resolve, missing, warnings };
+}
+
+export type FontResolver = Awaited<ReturnType<typeof createFontResolver>>["resolve"];
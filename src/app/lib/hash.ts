@@ -0,0 +1,18 @@
+const hashes = new WeakMap<File, Promise<string>>();
+
+/**
+ * SHA-256 of the file contents, computed once per File. Without Web Crypto
+ * (insecure origins) every file gets a key of its own.
+ */
+export const hashFile = (file: File) => {
+  let hash = hashes.get(file);
+  if (!hash) {
+    hash = typeof crypto !== "undefined" && crypto.subtle
+      ? file.arrayBuffer()
+        .then((buffer) => crypto.subtle.digest("SHA-256", buffer))
+        .then((digest) => Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join(""))
+      : Promise.resolve(`${Math.random()}`);
+    hashes.set(file, hash);
+  }
+  return hash;
+};
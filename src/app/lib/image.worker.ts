@@ -0,0 +1,54 @@
+import { editedSize } from "./edits";
+import {
+  drawScaled,
+  orientedSize,
+  encodingFor,
+  ProcessOptions,
+  targetSize,
+} from "./processing";
+
+export type WorkerRequest = {
+  id: number;
+  file: Blob;
+  options: ProcessOptions;
+};
+
+export type WorkerResponse =
+  | {
+    id: number;
+    bytes: ArrayBuffer;
+    width: number;
+    height: number;
+    mimeType: "image/png" | "image/jpeg";
+  }
+  | { id: number; error: string };
+
+// Decode, resize and encode off the main thread with OffscreenCanvas.
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, file, options } = event.data;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const upright = orientedSize(bitmap.width, bitmap.height, options.orientation);
+    const edited = editedSize(upright.width, upright.height, options.edits);
+    const { width, height } = targetSize(edited.width, edited.height, options.maxSide);
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext("2d");
+    drawScaled(context, bitmap, width, height, options);
+    bitmap.close();
+
+    const mimeType = encodingFor(context, file.type, width, height, options);
+    const blob = await canvas.convertToBlob({
+      type: mimeType,
+      quality: mimeType === "image/jpeg" ? options.quality : undefined,
+    });
+    const bytes = await blob.arrayBuffer();
+    const response: WorkerResponse = { id, bytes, width, height, mimeType };
+    self.postMessage(response, { transfer: [bytes] });
+  } catch (error) {
+    const response: WorkerResponse = {
+      id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,146 @@
+import { DrawableImage } from "./types";
+import { editedSize } from "./edits";
+import {
+  drawScaled,
+  orientedSize,
+  encodingFor,
+  ProcessedImage,
+  ProcessOptions,
+  targetSize,
+} from "./processing";
+
+export async function downscaleForPdf(
+  file: File,
+  options: ProcessOptions,
+): Promise<ProcessedImage> {
+  const { maxSide, quality } = options;
+  const { image, revoke } = await loadDrawableImage(file);
+  const upright = orientedSize(image.width, image.height, options.orientation);
+  const edited = editedSize(upright.width, upright.height, options.edits);
+  const { width: targetWidth, height: targetHeight } =
+    targetSize(edited.width, edited.height, maxSide);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = targetWidth;
+  canvas.height = targetHeight;
+
+  const context = canvas.getContext("2d");
+  try {
+    drawScaled(context, image, targetWidth, targetHeight, options);
+  } catch (error) {
+    revoke?.();
+    throw error;
+  }
+
+  const mimeType = encodingFor(context, file.type, targetWidth, targetHeight, options);
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (value) => {
+        if (value) {
+          resolve(value);
+        } else {
+          reject(new Error("Unable to encode image."));
+        }
+      },
+      mimeType,
+      mimeType === "image/jpeg" ? quality : undefined,
+    );
+  });
+
+  if ("close" in image && typeof (image as ImageBitmap).close === "function") {
+    (image as ImageBitmap).close();
+  }
+  revoke?.();
+  // Let the browser drop the backing store right away.
+  canvas.width = 0;
+  canvas.height = 0;
+
+  const arrayBuffer = await blob.arrayBuffer();
+  return {
+    bytes: new Uint8Array(arrayBuffer),
+    width: targetWidth,
+    height: targetHeight,
+    mimeType,
+  };
+}
+
+export async function loadDrawableImage(
+  file: File,
+): Promise<{ image: DrawableImage; revoke?: () => void }> {
+  if (typeof createImageBitmap === "function") {
+    const bitmap = await createImageBitmap(file);
+    return { image: bitmap };
+  }
+
+  const url = URL.createObjectURL(file);
+  return await new Promise((resolve, reject) => {
+    const img = new Image();
+    img.decoding = "async";
+    img.onload = () => resolve({ image: img, revoke: () => URL.revokeObjectURL(url) });
+    img.onerror = (error) => {
+      URL.revokeObjectURL(url);
+      reject(error);
+    };
+    img.src = url;
+  });
+}
+
+/** Size of the image once upright, whether or not the browser rotates it. */
+export async function readImageSize(
+  file: File,
+  orientation?: number,
+): Promise<{ width: number; height: number }> {
+  const { image, revoke } = await loadDrawableImage(file);
+  const size = orientedSize(image.width, image.height, await pendingOrientation(orientation));
+  if ("close" in image && typeof (image as ImageBitmap).close === "function") {
+    (image as ImageBitmap).close();
+  }
+  revoke?.();
+  return size;
+}
+
+// 2×1 JPEGs are encoded at runtime and tagged with orientation 6; a decoder
+// that honours EXIF returns them 1×2.
+let orientationProbe: Promise<boolean> | undefined;
+
+const decoderAppliesOrientation = () => {
+  orientationProbe ??= (async () => {
+    try {
+      const canvas = document.createElement("canvas");
+      canvas.width = 2;
+      canvas.height = 1;
+      const blob = await new Promise<Blob | null>((resolve) =>
+        canvas.toBlob(resolve, "image/jpeg"));
+      if (!blob) return true;
+      const jpeg = new Uint8Array(await blob.arrayBuffer());
+      const app1 = new Uint8Array([
+        0xff, 0xe1, 0x00, 0x22, // APP1, 34 bytes
+        0x45, 0x78, 0x69, 0x66, 0x00, 0x00, // "Exif\0\0"
+        0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // big-endian TIFF header
+        0x00, 0x01, // one entry
+        0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00, // orientation 6
+        0x00, 0x00, 0x00, 0x00, // no next IFD
+      ]);
+      const tagged = new Blob([jpeg.slice(0, 2), app1, jpeg.slice(2)], { type: "image/jpeg" });
+      const { image, revoke } = await loadDrawableImage(new File([tagged], "probe.jpg", { type: "image/jpeg" }));
+      const applied = image.width === 1;
+      if ("close" in image && typeof (image as ImageBitmap).close === "function") {
+        (image as ImageBitmap).close();
+      }
+      revoke?.();
+      return applied;
+    } catch {
+      return true;
+    }
+  })();
+  return orientationProbe;
+};
+
+/**
+ * The part of an EXIF orientation still to apply after decoding: none when
+ * the browser already turns images upright.
+ */
+export const pendingOrientation = async (orientation?: number) =>
+  orientation && orientation !== 1 && !(await decoderAppliesOrientation())
+    ? orientation
+    : undefined;
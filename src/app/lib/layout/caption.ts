@@ -0,0 +1,111 @@
+import { approximateMeasure, TextMeasurer, wrapText } from "../text";
+import { placeImage, visibleRect } from "./geometry";
+import { LayoutImage, LayoutSettings, PlacedImage, Rect } from "./types";
+
+export const CAPTION_PADDING = 5; // pt
+export const LINE_HEIGHT = 1.2;
+export const OVERLAY_TEXT_COLOR = "#ffffff";
+export const OVERLAY_BACKGROUND_OPACITY = 0.45;
+export const INFO_TEXT_COLOR = "#6b7280";
+
+/**
+ * Wraps captions to the width they get in a given cell; the EXIF info line,
+ * if any, follows on a single line of its own.
+ */
+export const captionWrapper = (
+  settings: LayoutSettings,
+  images: LayoutImage[],
+  measure: TextMeasurer = approximateMeasure,
+) => (index: number, cell: Rect) => {
+  const source = images[index];
+  if (!source.caption && !source.info) return [];
+  const width = settings.captionPosition === "overlay"
+    ? visibleRect(placeImage(cell, source)).width - CAPTION_PADDING * 2
+    : cell.width;
+  const caption = source.caption
+    ? wrapText(source.caption, width, settings.captionStyle, measure, Math.max(1, settings.captionMaxLines))
+    : [];
+  const info = source.info ? wrapText(source.info, width, settings.captionStyle, measure, 1) : [];
+  return [...caption, ...info];
+};
+
+/** Room taken next to the image by `lineCount` lines; overlays take none. */
+export const captionBand = (settings: LayoutSettings) => (lineCount: number) =>
+  settings.captionPosition !== "overlay" && lineCount
+    ? CAPTION_PADDING + lineCount * settings.captionStyle.size * LINE_HEIGHT
+    : 0;
+
+/**
+ * Cell of `width`×`height` hanging from `top`, leaving `band` free above or
+ * below it for the caption.
+ */
+export const cellBelow = (
+  settings: LayoutSettings,
+  x: number,
+  top: number,
+  width: number,
+  height: number,
+  band: number,
+): Rect => ({
+  x,
+  y: top - height - (settings.captionPosition === "above" ? band : 0),
+  width,
+  height,
+});
+
+/**
+ * Positions wrapped caption lines next to the drawn image: below or above it
+ * (inside the band reserved for the row) or over its bottom edge. The last
+ * `infoLines` lines are the EXIF info line, printed in grey.
+ */
+export const placeCaption = (
+  lines: string[],
+  cell: Rect,
+  image: Rect,
+  settings: LayoutSettings,
+  infoLines = 0,
+): Pick<PlacedImage, "caption" | "captionBackground"> => {
+  if (!lines.length) return { caption: [] };
+
+  const { captionStyle, captionPosition, captionAlign } = settings;
+  const lineHeight = captionStyle.size * LINE_HEIGHT;
+  const descent = lineHeight - captionStyle.size;
+  const blockHeight = lines.length * lineHeight;
+
+  // Baseline of the first (top) line.
+  const firstBaseline =
+    captionPosition === "below"
+      ? image.y - CAPTION_PADDING - captionStyle.size
+      : captionPosition === "above"
+        ? image.y + image.height + CAPTION_PADDING + blockHeight - lineHeight + descent
+        : image.y + CAPTION_PADDING + blockHeight - lineHeight + descent;
+  const inset = captionPosition === "overlay" ? CAPTION_PADDING : 0;
+  const left = captionPosition === "overlay" ? image.x : cell.x;
+  const width = captionPosition === "overlay" ? image.width : cell.width;
+
+  return {
+    caption: lines.map((text, line) => ({
+      text,
+      rect: {
+        x: left + inset,
+        y: firstBaseline - line * lineHeight,
+        width: width - inset * 2,
+        height: captionStyle.size,
+      },
+      fontSize: captionStyle.size,
+      family: captionStyle.family,
+      align: captionAlign,
+      color: captionPosition === "overlay"
+        ? OVERLAY_TEXT_COLOR
+        : line >= lines.length - infoLines ? INFO_TEXT_COLOR : undefined,
+    })),
+    captionBackground: captionPosition === "overlay"
+      ? {
+        x: image.x,
+        y: image.y,
+        width: image.width,
+        height: Math.min(image.height, blockHeight + CAPTION_PADDING * 2),
+      }
+      : undefined,
+  };
+};
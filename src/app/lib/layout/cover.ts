@@ -0,0 +1,87 @@
+import { TextMeasurer, wrapText } from "../text";
+import { ContentFrame, LayoutImage, LayoutSettings, PageLayout, PlacedText, Rect } from "./types";
+import { fitRect, MIN_CELL_WIDTH } from "./geometry";
+import { LINE_HEIGHT } from "./caption";
+
+export const COVER_TITLE_SIZE = 28; // pt
+export const COVER_SUBTITLE_SIZE = 16; // pt
+export const COVER_DETAILS_SIZE = 12; // pt
+const COVER_GAP = 24; // pt
+/** Share of the frame height the logo box takes. */
+const COVER_LOGO_SHARE = 0.15;
+
+/** Long Italian date of a `YYYY-MM-DD` value; today when empty. */
+export const formatCoverDate = (value: string) => {
+  const [year, month, day] = value.split("-").map(Number);
+  const date = value ? new Date(year, month - 1, day) : new Date();
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString("it-IT", { day: "numeric", month: "long", year: "numeric" });
+};
+
+/**
+ * Cover page: logo at the top, then title and subtitle, author and date at
+ * the bottom and the hero image, if any, fitted in the space left between.
+ */
+export const coverPage = (
+  settings: LayoutSettings,
+  images: LayoutImage[],
+  frame: ContentFrame,
+  measure: TextMeasurer,
+): Pick<PageLayout, "images" | "texts" | "logo"> => {
+  const family = settings.captionStyle.family;
+  const texts: PlacedText[] = [];
+  const line = (text: string, y: number, size: number): PlacedText => ({
+    text,
+    rect: { x: frame.left, y, width: frame.width, height: size },
+    fontSize: size,
+    family,
+    align: "center",
+  });
+  const wrap = (text: string, size: number, maxLines: number) =>
+    wrapText(text.trim(), frame.width, { family, size }, measure, maxLines);
+
+  let top = frame.top;
+  let logo: Rect | undefined;
+  if (settings.logo) {
+    const height = frame.height * COVER_LOGO_SHARE;
+    logo = { x: frame.left, y: top - height, width: frame.width, height };
+    top -= height + COVER_GAP;
+  }
+  [
+    ...wrap(settings.documentTitle, COVER_TITLE_SIZE, 3).map((text) => ({ text, size: COVER_TITLE_SIZE })),
+    ...wrap(settings.documentSubtitle, COVER_SUBTITLE_SIZE, 2).map((text) => ({ text, size: COVER_SUBTITLE_SIZE })),
+  ].forEach(({ text, size }) => {
+    texts.push(line(text, top - size, size));
+    top -= size * LINE_HEIGHT;
+  });
+
+  // Author and date sit on the bottom margin, last line first.
+  let bottom = frame.bottom;
+  [...wrap(settings.documentAuthor, COVER_DETAILS_SIZE, 1), formatCoverDate(settings.documentDate)]
+    .reverse()
+    .forEach((text) => {
+      texts.push(line(text, bottom + COVER_DETAILS_SIZE * (LINE_HEIGHT - 1), COVER_DETAILS_SIZE));
+      bottom += COVER_DETAILS_SIZE * LINE_HEIGHT;
+    });
+
+  const hero = images.findIndex((image) => image.hero);
+  const cell = {
+    x: frame.left,
+    y: bottom + COVER_GAP,
+    width: frame.width,
+    height: top - bottom - COVER_GAP * 2,
+  };
+  return {
+    texts,
+    logo,
+    images: hero >= 0 && cell.height >= MIN_CELL_WIDTH
+      ? [{
+        index: hero,
+        cell,
+        image: fitRect(cell, images[hero].width, images[hero].height),
+        caption: [],
+      }]
+      : [],
+  };
+};
@@ -0,0 +1,38 @@
+import { mmToPt } from "../units";
+import { resolvePageSize } from "../pageSize";
+import { bandHeight, bandUsed, MARGIN_TEXT_OFFSET } from "./margins";
+import { ContentFrame, LayoutSettings } from "./types";
+
+export const HEADER_SPACE = 40; // pt
+/** Space kept between the footer and the grid. */
+const FOOTER_GAP = 6; // pt
+
+/** Page size and printable area, in pt. */
+export const contentFrame = (settings: LayoutSettings) => {
+  const pageSize = resolvePageSize(settings);
+  const pageWidth = mmToPt(pageSize.width);
+  const pageHeight = mmToPt(pageSize.height);
+  const verticalPaddingPt = mmToPt(settings.verticalPadding);
+  const leftPaddingPt = mmToPt(settings.leftPadding);
+  const rightPaddingPt = mmToPt(settings.rightPadding);
+
+  // The header logo is three lines tall and centered on the header baseline.
+  const headerSpace = bandUsed(settings, "header")
+    ? Math.max(HEADER_SPACE, MARGIN_TEXT_OFFSET + settings.headerStyle.size * 2.5)
+    : 0;
+  // The footer lives in the bottom margin; the grid only moves up when it
+  // does not fit there.
+  const bottom = bandUsed(settings, "footer")
+    ? Math.max(verticalPaddingPt, bandHeight(settings, "footer") + FOOTER_GAP)
+    : verticalPaddingPt;
+
+  const contentHeight = pageHeight - headerSpace - verticalPaddingPt - bottom;
+  const frame: ContentFrame = {
+    left: leftPaddingPt,
+    bottom,
+    width: pageWidth - leftPaddingPt - rightPaddingPt,
+    height: contentHeight,
+    top: bottom + contentHeight,
+  };
+  return { pageWidth, pageHeight, frame };
+};
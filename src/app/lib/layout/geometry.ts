@@ -0,0 +1,96 @@
+import { DEFAULT_CROP } from "../constants";
+import { CellAspect, CropSettings } from "../types";
+import { LayoutImage, Rect } from "./types";
+
+export const MIN_CELL_WIDTH = 40; // pt
+
+/** Width/height ratio of an image, 1 when its size is unknown. */
+export const aspectOf = (image: Pick<LayoutImage, "width" | "height">) =>
+  image.width > 0 && image.height > 0 ? image.width / image.height : 1;
+
+/** Width/height ratio of the cells; "fill-page" starts square and is stretched later. */
+export const cellAspectRatio = (aspect: CellAspect, images: LayoutImage[]) => {
+  if (aspect === "fill-page") return 1;
+  if (aspect !== "auto") {
+    const [width, height] = aspect.split(":").map(Number);
+    return width / height;
+  }
+  return majorityAspectRatio(images);
+};
+
+/**
+ * Median width/height ratio of the images sharing the most common
+ * orientation (landscape, portrait or square).
+ */
+export const majorityAspectRatio = (images: LayoutImage[]) => {
+  const ratios = images
+    .filter((image) => image.width > 0 && image.height > 0)
+    .map((image) => image.width / image.height);
+  if (!ratios.length) return 1;
+
+  const orientation = (ratio: number) =>
+    Math.abs(ratio - 1) < 0.05 ? 0 : ratio > 1 ? 1 : -1;
+  const counts = new Map<number, number>();
+  ratios.forEach((ratio) => counts.set(orientation(ratio), (counts.get(orientation(ratio)) ?? 0) + 1));
+  const [majority] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+
+  const group = ratios.filter((ratio) => orientation(ratio) === majority).sort((a, b) => a - b);
+  return group[Math.floor(group.length / 2)];
+};
+
+/** Draw rect (and clip) of an image inside its cell according to its scale mode. */
+export const placeImage = (
+  cell: Rect,
+  source: Pick<LayoutImage, "width" | "height" | "scaleMode" | "crop">,
+): { image: Rect; clip?: Rect } => {
+  if (source.scaleMode === "fit" || !(source.width > 0 && source.height > 0)) {
+    return { image: fitRect(cell, source.width, source.height) };
+  }
+  const crop = source.scaleMode === "crop" ? source.crop ?? DEFAULT_CROP : DEFAULT_CROP;
+  return { image: coverRect(cell, source.width, source.height, crop), clip: { ...cell } };
+};
+
+/** The part of the image that ends up on paper. */
+export const visibleRect = ({ image, clip }: { image: Rect; clip?: Rect }) => clip ?? image;
+
+/**
+ * Rect covering `cell` entirely, scaled by `crop.zoom` and shifted so the
+ * focal point sits as close as possible to the cell center.
+ */
+export const coverRect = (
+  cell: Rect,
+  width: number,
+  height: number,
+  crop: CropSettings,
+): Rect => {
+  const scale = Math.max(cell.width / width, cell.height / height) * Math.max(1, crop.zoom);
+  const drawWidth = width * scale;
+  const drawHeight = height * scale;
+  const clamp = (value: number, min: number, max: number) =>
+    Math.min(max, Math.max(min, value));
+  return {
+    // Focal y is measured from the top, PDF y grows upwards.
+    x: clamp(cell.x + cell.width / 2 - crop.x * drawWidth, cell.x + cell.width - drawWidth, cell.x),
+    y: clamp(
+      cell.y + cell.height / 2 - (1 - crop.y) * drawHeight,
+      cell.y + cell.height - drawHeight,
+      cell.y,
+    ),
+    width: drawWidth,
+    height: drawHeight,
+  };
+};
+
+/** Largest rect with the given aspect ratio, centered inside `cell`. */
+export const fitRect = (cell: Rect, width: number, height: number): Rect => {
+  if (!(width > 0 && height > 0)) return { ...cell };
+  const scale = Math.min(cell.width / width, cell.height / height);
+  const drawWidth = width * scale;
+  const drawHeight = height * scale;
+  return {
+    x: cell.x + (cell.width - drawWidth) / 2,
+    y: cell.y + (cell.height - drawHeight) / 2,
+    width: drawWidth,
+    height: drawHeight,
+  };
+};
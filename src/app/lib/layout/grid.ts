@@ -0,0 +1,140 @@
+import { cellAspectRatio, MIN_CELL_WIDTH } from "./geometry";
+import { cellBelow } from "./caption";
+import { CellSpan } from "../types";
+import { Paginator, Slot } from "./types";
+
+/**
+ * Uniform grid: `columns` equal cells per row, rows of equal height. Images
+ * may span two columns, two rows or both. Cells fill rows or columns, from
+ * either side, and each page's rows are aligned once it is complete.
+ */
+export const gridLayout: Paginator = ({
+  settings,
+  images,
+  frame,
+  gutter,
+  captionLines,
+  captionBand,
+}) => {
+  const columns = Math.max(1, settings.columns);
+  const cellWidth = Math.max(
+    MIN_CELL_WIDTH,
+    (frame.width - gutter * (columns - 1)) / columns,
+  );
+  let cellHeight = cellWidth / cellAspectRatio(settings.cellAspect, images);
+
+  // Every row reserves room for the tallest caption so none runs into the
+  // next row.
+  const probe = { x: 0, y: 0, width: cellWidth, height: cellHeight };
+  const band = captionBand(
+    Math.max(0, ...images.map((_, index) => captionLines(index, probe).length)),
+  );
+  const rowsPerPage = Math.max(
+    1,
+    Math.min(
+      settings.maxRowsPerPage || Infinity,
+      Math.floor((frame.height + gutter) / (cellHeight + band + gutter)),
+    ),
+  );
+  if (settings.cellAspect === "fill-page") {
+    cellHeight = Math.max(
+      MIN_CELL_WIDTH,
+      (frame.height + gutter) / rowsPerPage - gutter - band,
+    );
+  }
+  const rowHeight = cellHeight + band;
+
+  // Cells taken on the current page, in fill order. An image spanning
+  // several cells goes in the first free area it fits; when there is none it
+  // waits for the next page while smaller images fill the gaps.
+  const pages: Slot[][] = [];
+  let current: Placement[] = [];
+  let taken: boolean[][] = [];
+  const cellAt = (position: number) =>
+    settings.fillOrder === "columns"
+      ? { col: Math.floor(position / rowsPerPage), row: position % rowsPerPage }
+      : { col: position % columns, row: Math.floor(position / columns) };
+  const fits = (col: number, row: number, span: CellSpanSize) =>
+    col + span.columns <= columns &&
+    row + span.rows <= rowsPerPage &&
+    taken.slice(row, row + span.rows).every((cells) =>
+      cells.slice(col, col + span.columns).every((cell) => !cell));
+  const place = (index: number) => {
+    const span = spanSize(images[index].span, columns, rowsPerPage);
+    for (let position = 0; position < columns * rowsPerPage; position++) {
+      const { col, row } = cellAt(position);
+      if (!fits(col, row, span)) continue;
+      for (let r = row; r < row + span.rows; r++) taken[r].fill(true, col, col + span.columns);
+      current.push({ index, col, row, span });
+      return true;
+    }
+    return false;
+  };
+
+  // Cells are only measured once a page is complete, since alignment depends
+  // on how many rows it uses.
+  const toSlots = (placements: Placement[]): Slot[] => {
+    const usedRows = Math.max(...placements.map(({ row, span }) => row + span.rows));
+    const free = Math.max(0, frame.height - (usedRows * rowHeight + (usedRows - 1) * gutter));
+    const rowGap = gutter + (settings.verticalAlign === "distribute" && usedRows > 1 ? free / (usedRows - 1) : 0);
+    const top = frame.top - (settings.verticalAlign === "center" ? free / 2 : 0);
+    const lastRow = placements.filter(({ row, span }) => row + span.rows === usedRows);
+    const lastRowWidth = lastRow.reduce((sum, { span }) => sum + span.columns, 0);
+    const centred = settings.centerLastRow &&
+      settings.fillOrder === "rows" &&
+      lastRow.every(({ row }) => row === usedRows - 1);
+    const shift = centred ? ((columns - lastRowWidth) * (cellWidth + gutter)) / 2 : 0;
+    return placements.map(({ index, col, row, span }) => {
+      const visualCol = settings.rightToLeft ? columns - col - span.columns : col;
+      const offset = lastRow.some((placement) => placement.index === index) ? shift : 0;
+      return {
+        index,
+        cell: cellBelow(
+          settings,
+          frame.left + visualCol * (cellWidth + gutter) + (settings.rightToLeft ? -offset : offset),
+          top - row * (rowHeight + rowGap),
+          span.columns * cellWidth + (span.columns - 1) * gutter,
+          span.rows * rowHeight + (span.rows - 1) * rowGap - band,
+          band,
+        ),
+      };
+    });
+  };
+  const newPage = () => {
+    if (current.length) pages.push(toSlots(current));
+    current = [];
+    taken = Array.from({ length: rowsPerPage }, () => new Array<boolean>(columns).fill(false));
+  };
+
+  newPage();
+  let waiting: number[] = [];
+  images.forEach((image, index) => {
+    if (place(index)) return;
+    const spanning = image.span !== undefined && image.span !== "1x1";
+    if (spanning && current.length) {
+      waiting.push(index);
+      return;
+    }
+    // Page full: the waiting images open the next one.
+    newPage();
+    waiting = waiting.filter((waited) => !place(waited));
+    if (!place(index)) waiting.push(index);
+  });
+  while (waiting.length) {
+    newPage();
+    waiting = waiting.filter((waited) => !place(waited));
+  }
+  newPage();
+  return pages;
+};
+
+type CellSpanSize = { columns: number; rows: number };
+
+/** Grid position of an image, before the page is aligned. */
+type Placement = { index: number; col: number; row: number; span: CellSpanSize };
+
+/** Columns and rows an image takes, at most the whole page. */
+const spanSize = (span: CellSpan = "1x1", columns: number, rows: number): CellSpanSize => {
+  const [spanColumns, spanRows] = span.split("x").map(Number);
+  return { columns: Math.min(spanColumns, columns), rows: Math.min(spanRows, rows) };
+};
@@ -0,0 +1,214 @@
+import { captionFor, exifInfo } from "../captions";
+import { editedSize } from "../edits";
+import { approximateMeasure, TextMeasurer } from "../text";
+import { LayoutMode, PdfSettings, UploadItem } from "../types";
+import { mmToPt } from "../units";
+import { captionBand, captionWrapper, placeCaption } from "./caption";
+import { contentFrame } from "./frame";
+import { isMirrored, marginTexts } from "./margins";
+import { placeImage, visibleRect } from "./geometry";
+import { gridLayout } from "./grid";
+import { justifiedLayout } from "./justified";
+import { masonryLayout } from "./masonry";
+import { cutLines, placePrint, printLayout } from "./print";
+import { contentsPageCount, contentsPages, pageBreakRuns, sectionRuns, titleText } from "./sections";
+import { coverPage } from "./cover";
+import {
+  DocumentLayout,
+  LayoutImage,
+  LayoutSettings,
+  PageLayout,
+  Paginator,
+  Rect,
+  SectionStart,
+  Slot,
+} from "./types";
+
+// Pure layout engine: no DOM, no pdf-lib. Placement algorithms only decide
+// where cells go; fitting, cropping and captions are shared by all of them.
+
+export * from "./types";
+export { coverRect, fitRect, majorityAspectRatio, MIN_CELL_WIDTH } from "./geometry";
+export { contentFrame, HEADER_SPACE } from "./frame";
+export {
+  formatPageNumber,
+  LOGO_LINES,
+  MARGIN_LOGO_GAP,
+  MARGIN_TEXT_OFFSET,
+  MARGIN_TOKENS,
+  marginTexts,
+} from "./margins";
+export { validateLayout } from "./validate";
+export { CUT_LINE_WIDTH, printGrid } from "./print";
+export { rotatedOrigin, WATERMARK_CAP_HEIGHT, watermarkMarks } from "./watermark";
+export { CONTENTS_TITLE, SECTION_TITLE_SIZE } from "./sections";
+export { formatCoverDate } from "./cover";
+export {
+  CAPTION_PADDING,
+  LINE_HEIGHT,
+  OVERLAY_BACKGROUND_OPACITY,
+  OVERLAY_TEXT_COLOR,
+} from "./caption";
+
+const PAGINATORS: Record<LayoutMode, Paginator> = {
+  grid: gridLayout,
+  justified: justifiedLayout,
+  masonry: masonryLayout,
+  print: printLayout,
+};
+
+/**
+ * `trailingPages` counts pages added after the generated ones, such as
+ * merged PDFs, for the `{pages}` token.
+ */
+export const computeLayout = (
+  settings: LayoutSettings,
+  images: LayoutImage[],
+  measure: TextMeasurer = approximateMeasure,
+  trailingPages = 0,
+): DocumentLayout => {
+  const { pageWidth, pageHeight, frame } = contentFrame(settings);
+  // Prints are cut out, so they carry no captions.
+  const print = settings.layoutMode === "print";
+  const wrapCaption = captionWrapper(settings, images, measure);
+  const captionLines: typeof wrapCaption = (index, cell) => print ? [] : wrapCaption(index, cell);
+  const titleFamily = settings.captionStyle.family;
+
+  // Sections that start on a new page are paginated one at a time, so each
+  // one gets its own pages; so are the images between manual page breaks.
+  const separate = settings.sectionBreak !== "none";
+  const runs = sectionRuns(images);
+  const sectionOf = images.map((): string | undefined => undefined);
+  runs.forEach(({ title, start, end }) => sectionOf.fill(title, start, end));
+  const bodies: { slots: Slot[]; title?: string }[] = [];
+  const sections: SectionStart[] = [];
+  (separate ? runs : [{ start: 0, end: images.length }]).forEach(({ start, end }, runIndex) => {
+    const title = separate ? runs[runIndex].title : undefined;
+    if (title) sections.push({ title, page: bodies.length });
+    if (title && settings.sectionBreak === "title") bodies.push({ slots: [], title });
+    pageBreakRuns(images, { start, end }).forEach(({ start: first, end: last }) =>
+      PAGINATORS[settings.layoutMode]({
+        settings,
+        images: images.slice(first, last),
+        frame,
+        gutter: mmToPt(settings.gutter),
+        captionLines: (index, cell) => captionLines(first + index, cell),
+        captionBand: captionBand(settings),
+      }).forEach((slots) =>
+        bodies.push({ slots: slots.map((slot) => ({ ...slot, index: slot.index + first })) })));
+  });
+  if (!separate) {
+    runs.forEach(({ title, start }) => {
+      const page = bodies.findIndex(({ slots }) => slots.some((slot) => slot.index === start));
+      if (title && page >= 0) sections.push({ title, page });
+    });
+  }
+
+  // An unnumbered cover hands the starting number to the page after it.
+  const coverCount = settings.coverPage ? 1 : 0;
+  const firstNumber = settings.startingPageNumber - (settings.coverPage && !settings.numberCover ? 1 : 0);
+  const contentsCount = settings.tableOfContents ? contentsPageCount(sections.length, frame) : 0;
+  sections.forEach((section) => section.page += coverCount + contentsCount);
+  const contents = contentsCount
+    ? contentsPages(sections, frame, titleFamily, measure, firstNumber, settings.pageNumberFormat)
+    : [];
+
+  const pages: (Omit<PageLayout, "width" | "height" | "margins"> & { section?: string })[] = [
+    ...(coverCount ? [coverPage(settings, images, frame, measure)] : []),
+    ...contents.map((page) => ({ ...page, images: [] })),
+    ...bodies.map(({ slots, title }) => ({
+      section: title ?? (slots.length ? sectionOf[slots[0].index] : undefined),
+      title: title ? titleText(title, frame, titleFamily, measure) : undefined,
+      images: slots.map(({ index: imageIndex, cell, bleed }) => {
+        const image = images[imageIndex];
+        const placement = print ? placePrint(bleed ?? cell, image) : placeImage(cell, image);
+        return {
+          index: imageIndex,
+          cell,
+          ...placement,
+          ...placeCaption(
+            captionLines(imageIndex, cell),
+            cell,
+            visibleRect(placement),
+            settings,
+            image.info ? 1 : 0,
+          ),
+        };
+      }),
+      cutLines: print && settings.cutMarks !== "none"
+        ? cutLines(settings, slots, pageWidth, pageHeight)
+        : undefined,
+    })),
+  ];
+
+  return {
+    pageWidth,
+    pageHeight,
+    sections,
+    pages: pages.map(({ section, ...page }, index) => {
+      const number = firstNumber + index;
+      const context = { number, pages: firstNumber + pages.length - 1 + trailingPages, section };
+      // The cover carries no header or footer, at most its number.
+      const isCover = index < coverCount;
+      const laidOut = {
+        width: pageWidth,
+        height: pageHeight,
+        ...page,
+        margins: isCover && !settings.numberCover
+          ? []
+          : marginTexts(settings, context, pageWidth, pageHeight, isCover),
+      };
+      return isMirrored(settings, number)
+        ? shiftPage(laidOut, mmToPt(settings.rightPadding - settings.leftPadding))
+        : laidOut;
+    }),
+  };
+};
+
+type ImageSettings = Pick<
+  PdfSettings,
+  "captionMode" | "captionTemplate" | "scaleMode" | "showExifInfo" | "coverImageId"
+>;
+
+const toLayoutImage = (
+  upload: UploadItem,
+  index: number,
+  settings: ImageSettings,
+): LayoutImage => ({
+  ...editedSize(upload.width, upload.height, upload.edits),
+  caption: captionFor(upload, index, settings),
+  info: settings.showExifInfo ? exifInfo(upload) : undefined,
+  section: upload.section,
+  hero: upload.id === settings.coverImageId,
+  pageBreak: upload.pageBreak,
+  span: upload.span,
+  scaleMode: upload.scaleMode ?? settings.scaleMode,
+  crop: upload.crop,
+});
+
+export const toLayoutImages = (
+  uploads: UploadItem[],
+  settings: ImageSettings,
+) => uploads.map((upload, index) => toLayoutImage(upload, index, settings));
+
+/** Moves the page content sideways; margins are placed already. */
+const shiftPage = (page: PageLayout, dx: number): PageLayout => {
+  const shift = <T extends { rect: Rect }>(item: T): T => ({ ...item, rect: move(item.rect) });
+  const move = (rect: Rect): Rect => ({ ...rect, x: rect.x + dx });
+  return {
+    ...page,
+    images: page.images.map((placed) => ({
+      ...placed,
+      cell: move(placed.cell),
+      image: move(placed.image),
+      clip: placed.clip && move(placed.clip),
+      caption: placed.caption.map(shift),
+      captionBackground: placed.captionBackground && move(placed.captionBackground),
+    })),
+    title: page.title && shift(page.title),
+    texts: page.texts?.map(shift),
+    links: page.links?.map(shift),
+    logo: page.logo && move(page.logo),
+    cutLines: page.cutLines?.map((line) => ({ ...line, x1: line.x1 + dx, x2: line.x2 + dx })),
+  };
+};
@@ -0,0 +1,78 @@
+import { aspectOf, majorityAspectRatio, MIN_CELL_WIDTH } from "./geometry";
+import { cellBelow } from "./caption";
+import { Paginator, Slot } from "./types";
+
+/**
+ * Justified rows: images keep their aspect ratio and every full row is
+ * scaled to span the printable width, like a photo gallery. `columns` sets
+ * the target number of images per row for the typical image.
+ */
+export const justifiedLayout: Paginator = ({
+  settings,
+  images,
+  frame,
+  gutter,
+  captionLines,
+  captionBand,
+}) => {
+  const columns = Math.max(1, settings.columns);
+  const targetWidth = Math.max(MIN_CELL_WIDTH, (frame.width - gutter * (columns - 1)) / columns);
+  const targetHeight = targetWidth / majorityAspectRatio(images);
+
+  const rows: number[][] = [];
+  let row: number[] = [];
+  let aspectSum = 0;
+  images.forEach((image, index) => {
+    row.push(index);
+    aspectSum += aspectOf(image);
+    if (aspectSum * targetHeight + gutter * (row.length - 1) >= frame.width) {
+      rows.push(row);
+      row = [];
+      aspectSum = 0;
+    }
+  });
+  if (row.length) rows.push(row);
+
+  const pages: Slot[][] = [];
+  let current: Slot[] = [];
+  let top = frame.top;
+
+  rows.forEach((indexes, rowIndex) => {
+    const aspects = indexes.map((index) => aspectOf(images[index]));
+    const totalAspect = aspects.reduce((sum, aspect) => sum + aspect, 0);
+    const isLastRow = rowIndex === rows.length - 1;
+    const fullHeight = (frame.width - gutter * (indexes.length - 1)) / totalAspect;
+    // The last row is not stretched, unless it happens to be full anyway.
+    let height = isLastRow ? Math.min(targetHeight, fullHeight) : fullHeight;
+
+    const lineCount = (rowHeight: number) => Math.max(
+      0,
+      ...indexes.map((index, i) =>
+        captionLines(index, { x: 0, y: 0, width: rowHeight * aspects[i], height: rowHeight }).length),
+    );
+    let band = captionBand(lineCount(height));
+    if (height + band > frame.height) {
+      height = Math.max(MIN_CELL_WIDTH, frame.height - band);
+      band = captionBand(lineCount(height));
+    }
+
+    if (current.length && top - height - band < frame.bottom) {
+      pages.push(current);
+      current = [];
+      top = frame.top;
+    }
+
+    const rowWidth = totalAspect * height + gutter * (indexes.length - 1);
+    // Rows capped by the page height are narrower than the frame: center them.
+    let x = frame.left + (rowWidth < frame.width && !isLastRow ? (frame.width - rowWidth) / 2 : 0);
+    indexes.forEach((index, i) => {
+      const width = height * aspects[i];
+      current.push({ index, cell: cellBelow(settings, x, top, width, height, band) });
+      x += width + gutter;
+    });
+    top -= height + band + gutter;
+  });
+
+  if (current.length) pages.push(current);
+  return pages;
+};
@@ -0,0 +1,133 @@
+import { MarginBand, PageNumberFormat, TextAlign } from "../types";
+import { mmToPt } from "../units";
+import { formatCoverDate } from "./cover";
+import { LayoutSettings, MarginText } from "./types";
+
+export const MARGIN_TEXT_OFFSET = 20; // pt from the page edge
+/** The logo is this many lines of its band's text tall, centred on the baseline. */
+export const LOGO_LINES = 3;
+export const MARGIN_LOGO_GAP = 5; // pt
+
+export const MARGIN_TOKENS = ["{page}", "{pages}", "{date}", "{section}", "{filename}"];
+
+type MarginSettings = Pick<
+  LayoutSettings,
+  | "headerLeft"
+  | "headerText"
+  | "headerRight"
+  | "footerLeft"
+  | "footerText"
+  | "footerRight"
+  | "headerStyle"
+  | "footerStyle"
+  | "leftPadding"
+  | "rightPadding"
+  | "mirrorMargins"
+  | "pageNumberFormat"
+  | "logo"
+  | "logoPosition"
+  | "documentDate"
+  | "fileName"
+>;
+
+/** What the tokens of a page stand for. */
+export type MarginContext = {
+  number: number;
+  /** Number of the last page. */
+  pages: number;
+  section?: string;
+};
+
+const ROMAN_DIGITS: [number, string][] = [
+  [1000, "m"], [900, "cm"], [500, "d"], [400, "cd"], [100, "c"], [90, "xc"],
+  [50, "l"], [40, "xl"], [10, "x"], [9, "ix"], [5, "v"], [4, "iv"], [1, "i"],
+];
+
+export const toRoman = (value: number) => {
+  if (value <= 0 || value >= 4000) return String(value);
+  let rest = Math.floor(value);
+  return ROMAN_DIGITS.reduce((roman, [amount, digits]) => {
+    while (rest >= amount) {
+      roman += digits;
+      rest -= amount;
+    }
+    return roman;
+  }, "");
+};
+
+export const formatPageNumber = (value: number, format: PageNumberFormat) =>
+  format === "roman" ? toRoman(value) : format === "roman-upper" ? toRoman(value).toUpperCase() : String(value);
+
+const slots = (settings: MarginSettings, band: MarginBand): [TextAlign, string][] =>
+  band === "header"
+    ? [["left", settings.headerLeft], ["center", settings.headerText], ["right", settings.headerRight]]
+    : [["left", settings.footerLeft], ["center", settings.footerText], ["right", settings.footerRight]];
+
+const logoSlot = (settings: Pick<MarginSettings, "logo" | "logoPosition">) => {
+  if (!settings.logo || settings.logoPosition === "none") return undefined;
+  const [band, align] = settings.logoPosition.split("-") as [MarginBand, TextAlign];
+  return { band, align };
+};
+
+/** Whether anything is printed in the band, so the grid has to keep clear of it. */
+export const bandUsed = (settings: MarginSettings, band: MarginBand) =>
+  logoSlot(settings)?.band === band || slots(settings, band).some(([, template]) => template.trim());
+
+/** Height from the page edge taken by the band's text, or its logo. */
+export const bandHeight = (settings: MarginSettings, band: MarginBand) => {
+  const style = band === "header" ? settings.headerStyle : settings.footerStyle;
+  return MARGIN_TEXT_OFFSET + style.size * (logoSlot(settings)?.band === band ? LOGO_LINES / 2 : 1);
+};
+
+/** Even pages of a mirrored document are left-hand pages, with margins swapped. */
+export const isMirrored = (settings: Pick<LayoutSettings, "mirrorMargins">, number: number) =>
+  settings.mirrorMargins && number % 2 === 0;
+
+const fillTemplate = (template: string, settings: MarginSettings, context: MarginContext) =>
+  template
+    .replaceAll("{page}", formatPageNumber(context.number, settings.pageNumberFormat))
+    .replaceAll("{pages}", formatPageNumber(context.pages, settings.pageNumberFormat))
+    .replaceAll("{date}", formatCoverDate(settings.documentDate))
+    .replaceAll("{section}", context.section ?? "")
+    .replaceAll("{filename}", settings.fileName.trim().replace(/\.pdf$/i, ""));
+
+/**
+ * Filled header and footer slots of a page of any size; also used for pages
+ * of merged PDFs. On mirrored pages left and right slots trade places too, so
+ * they stay on the outer or inner edge. `numbersOnly` keeps just the slots
+ * showing the page number, for the cover.
+ */
+export const marginTexts = (
+  settings: MarginSettings,
+  context: MarginContext,
+  pageWidth: number,
+  pageHeight: number,
+  numbersOnly = false,
+): MarginText[] => {
+  const mirrored = isMirrored(settings, context.number);
+  const [left, right] = mirrored
+    ? [mmToPt(settings.rightPadding), mmToPt(settings.leftPadding)]
+    : [mmToPt(settings.leftPadding), mmToPt(settings.rightPadding)];
+  const logo = numbersOnly ? undefined : logoSlot(settings);
+
+  return (["header", "footer"] as MarginBand[]).flatMap((band) => {
+    const style = band === "header" ? settings.headerStyle : settings.footerStyle;
+    return slots(settings, band).flatMap(([align, template]): MarginText[] => {
+      const withLogo = logo?.band === band && logo.align === align;
+      if (numbersOnly ? !template.includes("{page}") : !template.trim() && !withLogo) return [];
+      return [{
+        text: fillTemplate(template, settings, context).trim(),
+        rect: {
+          x: left,
+          y: band === "header" ? pageHeight - MARGIN_TEXT_OFFSET : MARGIN_TEXT_OFFSET,
+          width: pageWidth - left - right,
+          height: style.size,
+        },
+        fontSize: style.size,
+        family: style.family,
+        align: mirrored && align !== "center" ? (align === "left" ? "right" : "left") : align,
+        logoHeight: withLogo ? style.size * LOGO_LINES : undefined,
+      }];
+    });
+  });
+};
@@ -0,0 +1,56 @@
+import { aspectOf, MIN_CELL_WIDTH } from "./geometry";
+import { cellBelow } from "./caption";
+import { Paginator, Slot } from "./types";
+
+/**
+ * Masonry: `columns` columns of equal width; each image keeps its aspect
+ * ratio and goes into the currently shortest column.
+ */
+export const masonryLayout: Paginator = ({
+  settings,
+  images,
+  frame,
+  gutter,
+  captionLines,
+  captionBand,
+}) => {
+  const columns = Math.max(1, settings.columns);
+  const columnWidth = Math.max(MIN_CELL_WIDTH, (frame.width - gutter * (columns - 1)) / columns);
+
+  const pages: Slot[][] = [];
+  let current: Slot[] = [];
+  let tops = Array.from({ length: columns }, () => frame.top);
+
+  images.forEach((image, index) => {
+    let height = columnWidth / aspectOf(image);
+    let band = captionBand(captionLines(index, { x: 0, y: 0, width: columnWidth, height }).length);
+    if (height + band > frame.height) {
+      height = Math.max(MIN_CELL_WIDTH, frame.height - band);
+      band = captionBand(captionLines(index, { x: 0, y: 0, width: columnWidth, height }).length);
+    }
+
+    let column = tops.indexOf(Math.max(...tops));
+    if (current.length && tops[column] - height - band < frame.bottom) {
+      pages.push(current);
+      current = [];
+      tops = tops.map(() => frame.top);
+      column = 0;
+    }
+
+    current.push({
+      index,
+      cell: cellBelow(
+        settings,
+        frame.left + column * (columnWidth + gutter),
+        tops[column],
+        columnWidth,
+        height,
+        band,
+      ),
+    });
+    tops[column] -= height + band + gutter;
+  });
+
+  if (current.length) pages.push(current);
+  return pages;
+};
@@ -0,0 +1,146 @@
+import { DEFAULT_CROP, PRINT_SIZES } from "../constants";
+import { mmToPt } from "../units";
+import { coverRect } from "./geometry";
+import { ContentFrame, CutLine, LayoutImage, LayoutSettings, Paginator, Rect, Slot } from "./types";
+
+export const CUT_LINE_WIDTH = 0.25;
+
+const MARK_LENGTH = mmToPt(4);
+/** Gap between the cut (or the bleed) and a corner mark. */
+const MARK_OFFSET = mmToPt(1);
+
+type PrintSettings = Pick<
+  LayoutSettings,
+  "printSize" | "customPrintWidth" | "customPrintHeight" | "printBleed" | "gutter"
+>;
+
+/** Print size in mm, portrait. */
+export const printSize = (settings: PrintSettings) =>
+  settings.printSize === "custom"
+    ? { width: settings.customPrintWidth, height: settings.customPrintHeight }
+    : PRINT_SIZES[settings.printSize];
+
+/**
+ * Prints per sheet, upright or turned, whichever fits more. Neighbouring
+ * prints are at least two bleeds apart so their bleeds do not overlap.
+ */
+export const printGrid = (settings: PrintSettings, frame: ContentFrame) => {
+  const size = printSize(settings);
+  const spacing = Math.max(mmToPt(settings.gutter), mmToPt(settings.printBleed) * 2);
+  const fit = (width: number, height: number) => ({
+    width,
+    height,
+    columns: Math.floor((frame.width + spacing) / (width + spacing)),
+    rows: Math.floor((frame.height + spacing) / (height + spacing)),
+  });
+  const upright = fit(mmToPt(size.width), mmToPt(size.height));
+  const turned = fit(mmToPt(size.height), mmToPt(size.width));
+  const best = turned.columns * turned.rows > upright.columns * upright.rows ? turned : upright;
+  return { ...best, spacing, perPage: best.columns * best.rows };
+};
+
+const expand = (rect: Rect, by: number): Rect => ({
+  x: rect.x - by,
+  y: rect.y - by,
+  width: rect.width + by * 2,
+  height: rect.height + by * 2,
+});
+
+/** Prints at their real size, as a block centred on the sheet. */
+export const printLayout: Paginator = ({ settings, images, frame }) => {
+  const grid = printGrid(settings, frame);
+  // A print larger than the sheet still gets a page of its own.
+  const columns = Math.max(1, grid.columns);
+  const rows = Math.max(1, grid.rows);
+  const perPage = columns * rows;
+  const blockWidth = columns * grid.width + (columns - 1) * grid.spacing;
+  const blockHeight = rows * grid.height + (rows - 1) * grid.spacing;
+  const left = frame.left + (frame.width - blockWidth) / 2;
+  const top = frame.top - (frame.height - blockHeight) / 2;
+  const bleed = mmToPt(settings.printBleed);
+
+  const pages: Slot[][] = [];
+  images.forEach((_, index) => {
+    const position = index % perPage;
+    if (position === 0) pages.push([]);
+    const col = position % columns;
+    const row = Math.floor(position / columns);
+    const cell = {
+      x: left + col * (grid.width + grid.spacing),
+      y: top - row * (grid.height + grid.spacing) - grid.height,
+      width: grid.width,
+      height: grid.height,
+    };
+    pages[pages.length - 1].push({ index, cell, bleed: bleed > 0 ? expand(cell, bleed) : undefined });
+  });
+  return pages;
+};
+
+/**
+ * A print always fills its cut, or its bleed, whatever the scale mode. A
+ * photo whose orientation differs from the cell's is turned a quarter
+ * counterclockwise; `image` is then the rect it covers once turned.
+ */
+export const placePrint = (
+  target: Rect,
+  source: Pick<LayoutImage, "width" | "height" | "scaleMode" | "crop">,
+): { image: Rect; clip: Rect; rotated?: boolean } => {
+  const crop = source.scaleMode === "crop" ? source.crop ?? DEFAULT_CROP : DEFAULT_CROP;
+  if (!(source.width > 0 && source.height > 0)) {
+    return { image: { ...target }, clip: { ...target } };
+  }
+  const rotated = source.width !== source.height &&
+    source.width > source.height !== target.width > target.height;
+  if (!rotated) {
+    return { image: coverRect(target, source.width, source.height, crop), clip: { ...target } };
+  }
+  // Turning counterclockwise moves the top edge to the left.
+  const turnedCrop = { ...crop, x: crop.y, y: 1 - crop.x };
+  return {
+    image: coverRect(target, source.height, source.width, turnedCrop),
+    clip: { ...target },
+    rotated,
+  };
+};
+
+const overlaps = (line: CutLine, rect: Rect) =>
+  Math.max(line.x1, line.x2) > rect.x &&
+  Math.min(line.x1, line.x2) < rect.x + rect.width &&
+  Math.max(line.y1, line.y2) > rect.y &&
+  Math.min(line.y1, line.y2) < rect.y + rect.height;
+
+/**
+ * Trim guides for the prints of a page: lines across the whole sheet along
+ * every cut, or short marks off each corner that stay clear of all prints.
+ */
+export const cutLines = (
+  settings: Pick<LayoutSettings, "cutMarks">,
+  slots: Slot[],
+  pageWidth: number,
+  pageHeight: number,
+): CutLine[] => {
+  if (settings.cutMarks === "lines") {
+    const xs = new Set(slots.flatMap(({ cell }) => [cell.x, cell.x + cell.width]));
+    const ys = new Set(slots.flatMap(({ cell }) => [cell.y, cell.y + cell.height]));
+    return [
+      ...Array.from(xs).map((x) => ({ x1: x, y1: 0, x2: x, y2: pageHeight })),
+      ...Array.from(ys).map((y) => ({ x1: 0, y1: y, x2: pageWidth, y2: y })),
+    ];
+  }
+  if (settings.cutMarks === "corners") {
+    const printed = slots.map(({ cell, bleed }) => bleed ?? cell);
+    return slots.flatMap(({ cell, bleed }) => {
+      const offset = (bleed ? cell.x - bleed.x : 0) + MARK_OFFSET;
+      return [cell.x, cell.x + cell.width].flatMap((x, right) =>
+        [cell.y, cell.y + cell.height].flatMap((y, upper) => {
+          const dx = right ? 1 : -1;
+          const dy = upper ? 1 : -1;
+          return [
+            { x1: x + dx * offset, y1: y, x2: x + dx * (offset + MARK_LENGTH), y2: y },
+            { x1: x, y1: y + dy * offset, x2: x, y2: y + dy * (offset + MARK_LENGTH) },
+          ];
+        }));
+    }).filter((line) => !printed.some((rect) => overlaps(line, rect)));
+  }
+  return [];
+};
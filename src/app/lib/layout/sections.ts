@@ -0,0 +1,117 @@
+import { TextMeasurer, wrapText } from "../text";
+import { FontFamily, PageNumberFormat } from "../types";
+import { formatPageNumber } from "./margins";
+import { ContentFrame, LayoutImage, PageLayout, PlacedText, SectionStart } from "./types";
+
+export const SECTION_TITLE_SIZE = 24; // pt
+export const CONTENTS_TITLE = "Indice";
+export const CONTENTS_TITLE_SIZE = 18; // pt
+export const CONTENTS_TEXT_SIZE = 11; // pt
+const CONTENTS_LINE_HEIGHT = CONTENTS_TEXT_SIZE * 1.8;
+const CONTENTS_HEADING = CONTENTS_TITLE_SIZE * 2;
+/** Room kept free for the page number at the end of each entry. */
+const PAGE_NUMBER_WIDTH = 40; // pt
+
+/** Consecutive images; `title` is set when the first one opens a section. */
+export type ImageRun = { title?: string; start: number; end: number };
+
+/** Splits the images before every one that opens a section. */
+export const sectionRuns = (images: LayoutImage[]) =>
+  images.reduce<ImageRun[]>((runs, image, index) => {
+    const title = image.section?.trim();
+    if (title || !runs.length) {
+      runs.push({ title: title || undefined, start: index, end: index + 1 });
+    } else {
+      runs[runs.length - 1].end = index + 1;
+    }
+    return runs;
+  }, []);
+
+/** Splits `run` before every image, but its first, marked with a page break. */
+export const pageBreakRuns = (images: LayoutImage[], { start, end }: ImageRun) =>
+  images.slice(start, end).reduce<ImageRun[]>((runs, image, offset) => {
+    const index = start + offset;
+    if (image.pageBreak || !runs.length) {
+      runs.push({ start: index, end: index + 1 });
+    } else {
+      runs[runs.length - 1].end = index + 1;
+    }
+    return runs;
+  }, []);
+
+/** Section title centred on a page of its own. */
+export const titleText = (
+  title: string,
+  frame: ContentFrame,
+  family: FontFamily,
+  measure: TextMeasurer,
+): PlacedText => {
+  const style = { family, size: SECTION_TITLE_SIZE };
+  return {
+    text: wrapText(title, frame.width, style, measure, 1)[0] ?? "",
+    rect: {
+      x: frame.left,
+      y: frame.bottom + (frame.height - SECTION_TITLE_SIZE) / 2,
+      width: frame.width,
+      height: SECTION_TITLE_SIZE,
+    },
+    fontSize: SECTION_TITLE_SIZE,
+    family,
+    align: "center",
+  };
+};
+
+const entriesPerPage = (frame: ContentFrame) =>
+  Math.max(1, Math.floor((frame.height - CONTENTS_HEADING) / CONTENTS_LINE_HEIGHT));
+
+export const contentsPageCount = (sectionCount: number, frame: ContentFrame) =>
+  Math.ceil(sectionCount / entriesPerPage(frame));
+
+/**
+ * Table of contents: one line per section with the number printed on its
+ * first page, each line linking to that page.
+ */
+export const contentsPages = (
+  sections: SectionStart[],
+  frame: ContentFrame,
+  family: FontFamily,
+  measure: TextMeasurer,
+  /** Number printed on the page at index 0. */
+  firstNumber: number,
+  numberFormat: PageNumberFormat,
+): Pick<PageLayout, "texts" | "links">[] => {
+  const style = { family, size: CONTENTS_TEXT_SIZE };
+  const line = (text: string, y: number, align: PlacedText["align"], size = CONTENTS_TEXT_SIZE): PlacedText => ({
+    text,
+    rect: { x: frame.left, y, width: frame.width, height: size },
+    fontSize: size,
+    family,
+    align,
+  });
+
+  const perPage = entriesPerPage(frame);
+  return Array.from({ length: contentsPageCount(sections.length, frame) }, (_, pageIndex) => {
+    const entries = sections.slice(pageIndex * perPage, (pageIndex + 1) * perPage);
+    const baselines = entries.map(
+      (_, row) => frame.top - CONTENTS_HEADING - row * CONTENTS_LINE_HEIGHT - CONTENTS_TEXT_SIZE,
+    );
+    return {
+      texts: [
+        ...(pageIndex === 0 ? [line(CONTENTS_TITLE, frame.top - CONTENTS_TITLE_SIZE, "left", CONTENTS_TITLE_SIZE)] : []),
+        ...entries.flatMap((section, row) => [
+          line(wrapText(section.title, frame.width - PAGE_NUMBER_WIDTH, style, measure, 1)[0] ?? "", baselines[row], "left"),
+          line(formatPageNumber(firstNumber + section.page, numberFormat), baselines[row], "right"),
+        ]),
+      ],
+      links: entries.map((section, row) => ({
+        rect: {
+          x: frame.left,
+          y: baselines[row] - (CONTENTS_LINE_HEIGHT - CONTENTS_TEXT_SIZE) / 2,
+          width: frame.width,
+          height: CONTENTS_LINE_HEIGHT,
+        },
+        page: section.page,
+      })),
+    };
+  });
+};
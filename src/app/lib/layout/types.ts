@@ -0,0 +1,178 @@
+import {
+  CellSpan,
+  CropSettings,
+  FontFamily,
+  PdfSettings,
+  ScaleMode,
+  TextAlign,
+} from "../types";
+
+// All measures are in pt, with the origin in the bottom-left corner of the
+// page like in PDF space.
+
+export type Rect = { x: number; y: number; width: number; height: number };
+
+/** A line of text; `rect.y` is the baseline. */
+export type PlacedText = {
+  text: string;
+  rect: Rect;
+  fontSize: number;
+  family: FontFamily;
+  align: TextAlign;
+  /** Hex colour; black when omitted. */
+  color?: string;
+};
+
+export type PlacedImage = {
+  /** Index of the image in the input list. */
+  index: number;
+  cell: Rect;
+  /** Where the whole image is drawn; may extend past the cell when cropped. */
+  image: Rect;
+  /** Clipping rect for cropped images (the cell). */
+  clip?: Rect;
+  /** Turned a quarter counterclockwise to match a print's orientation. */
+  rotated?: boolean;
+  /** One entry per wrapped caption line, top to bottom. */
+  caption: PlacedText[];
+  /** Backdrop drawn behind captions overlaid on the image. */
+  captionBackground?: Rect;
+};
+
+/** Header or footer slot; `logoHeight` is set on the one the logo goes in, before its text. */
+export type MarginText = PlacedText & { logoHeight?: number };
+
+/** Straight guide line, from (x1, y1) to (x2, y2). */
+export type CutLine = { x1: number; y1: number; x2: number; y2: number };
+
+/** Unrotated box of a watermark and the area it is clipped to, if any. */
+export type PlacedMark = { rect: Rect; clip?: Rect };
+
+/** Clickable area leading to another page of the document. */
+export type PageLink = { rect: Rect; page: number };
+
+export type PageLayout = {
+  width: number;
+  height: number;
+  images: PlacedImage[];
+  /** Section title, on title pages. */
+  title?: PlacedText;
+  /** Lines of the table of contents or of the cover. */
+  texts?: PlacedText[];
+  links?: PageLink[];
+  /** Box the logo is fitted in, on the cover. */
+  logo?: Rect;
+  /** Trim guides, in print layout. */
+  cutLines?: CutLine[];
+  /** Filled header and footer slots. */
+  margins: MarginText[];
+};
+
+/** A named section and the index of the page it starts on. */
+export type SectionStart = { title: string; page: number };
+
+export type DocumentLayout = {
+  pageWidth: number;
+  pageHeight: number;
+  pages: PageLayout[];
+  sections: SectionStart[];
+};
+
+export type LayoutImage = {
+  width: number;
+  height: number;
+  caption: string;
+  /** EXIF info line printed after the caption, when enabled. */
+  info?: string;
+  /** Title of the section this image opens, if it opens one. */
+  section?: string;
+  /** Shown large on the cover page. */
+  hero?: boolean;
+  /** Starts a new page. */
+  pageBreak?: boolean;
+  /** Grid cells taken, in the grid layout. */
+  span?: CellSpan;
+  scaleMode: ScaleMode;
+  crop?: CropSettings;
+};
+
+export type LayoutSettings = Pick<
+  PdfSettings,
+  | "pageSize"
+  | "orientation"
+  | "customPageWidth"
+  | "customPageHeight"
+  | "layoutMode"
+  | "columns"
+  | "verticalPadding"
+  | "leftPadding"
+  | "rightPadding"
+  | "mirrorMargins"
+  | "gutter"
+  | "headerText"
+  | "headerLeft"
+  | "headerRight"
+  | "footerText"
+  | "footerLeft"
+  | "footerRight"
+  | "startingPageNumber"
+  | "pageNumberFormat"
+  | "logoPosition"
+  | "fileName"
+  | "captionStyle"
+  | "headerStyle"
+  | "footerStyle"
+  | "captionPosition"
+  | "captionAlign"
+  | "captionMaxLines"
+  | "cellAspect"
+  | "fillOrder"
+  | "rightToLeft"
+  | "centerLastRow"
+  | "verticalAlign"
+  | "maxRowsPerPage"
+  | "printSize"
+  | "customPrintWidth"
+  | "customPrintHeight"
+  | "printBleed"
+  | "cutMarks"
+  | "sectionBreak"
+  | "tableOfContents"
+  | "coverPage"
+  | "documentTitle"
+  | "documentSubtitle"
+  | "documentAuthor"
+  | "documentDate"
+  | "numberCover"
+  | "logo"
+>;
+
+/** Printable area of a page, between margins, header and footer. */
+export type ContentFrame = {
+  left: number;
+  bottom: number;
+  width: number;
+  height: number;
+  /** y of the top edge, i.e. `bottom + height`. */
+  top: number;
+};
+
+/**
+ * A cell assigned to an image before it is fitted and captioned. `bleed` is
+ * the larger area a print is drawn into so it can be trimmed to the cell.
+ */
+export type Slot = { index: number; cell: Rect; bleed?: Rect };
+
+export type LayoutContext = {
+  settings: LayoutSettings;
+  images: LayoutImage[];
+  frame: ContentFrame;
+  gutter: number;
+  /** Wrapped caption of image `index` when placed in `cell`. */
+  captionLines: (index: number, cell: Rect) => string[];
+  /** Height reserved next to a cell for `lineCount` caption lines. */
+  captionBand: (lineCount: number) => number;
+};
+
+/** A placement algorithm: distributes the images over pages of slots. */
+export type Paginator = (context: LayoutContext) => Slot[][];
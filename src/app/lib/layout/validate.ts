@@ -0,0 +1,55 @@
+import { PdfSettings } from "../types";
+import { formatLength, mmToPt, PT_PER_MM } from "../units";
+import { contentFrame } from "./frame";
+import { cellAspectRatio, MIN_CELL_WIDTH } from "./geometry";
+import { printGrid, printSize } from "./print";
+import { LayoutImage, LayoutSettings } from "./types";
+
+/**
+ * Settings the paginators cannot honour, described for the user. The
+ * layout is still computed, but cells end up outside the printable area.
+ */
+export const validateLayout = (
+  settings: LayoutSettings & Pick<PdfSettings, "lengthUnit">,
+  images: LayoutImage[],
+): string[] => {
+  const { frame } = contentFrame(settings);
+  const unit = settings.lengthUnit;
+  if (frame.width <= 0 || frame.height <= 0) {
+    return ["Margini e intestazione occupano tutta la pagina: non resta spazio per le immagini."];
+  }
+
+  const warnings: string[] = [];
+  const columns = Math.max(1, settings.columns);
+  const gutter = mmToPt(settings.gutter);
+  const minimumRow = columns * MIN_CELL_WIDTH + gutter * (columns - 1);
+  const columnsUsed = settings.layoutMode === "grid" || settings.layoutMode === "masonry";
+  if (columnsUsed && minimumRow > frame.width) {
+    warnings.push(
+      `Con ${columns} colonne servono almeno ${formatLength(minimumRow / PT_PER_MM, unit)} ` +
+        `di larghezza utile, ma ne restano ${formatLength(frame.width / PT_PER_MM, unit)}: ` +
+        "le immagini usciranno dal margine destro. Riduci colonne, margini o spaziatura.",
+    );
+  }
+
+  if (settings.layoutMode === "grid" && settings.cellAspect !== "fill-page") {
+    const cellWidth = Math.max(MIN_CELL_WIDTH, (frame.width - gutter * (columns - 1)) / columns);
+    const cellHeight = cellWidth / cellAspectRatio(settings.cellAspect, images);
+    if (cellHeight > frame.height) {
+      warnings.push(
+        "Una riga della griglia è più alta dello spazio utile della pagina: " +
+          "aumenta le colonne o scegli un formato di cella più largo.",
+      );
+    }
+  }
+
+  if (settings.layoutMode === "print" && !printGrid(settings, frame).perPage) {
+    const size = printSize(settings);
+    warnings.push(
+      `Una stampa ${formatLength(size.width, unit)} × ${formatLength(size.height, unit)} ` +
+        "non entra nello spazio utile della pagina, nemmeno ruotata: " +
+        "scegli un formato di pagina più grande o riduci i margini.",
+    );
+  }
+  return warnings;
+};
@@ -0,0 +1,66 @@
+import { PdfSettings } from "../types";
+import { visibleRect } from "./geometry";
+import { PageLayout, PlacedMark, Rect } from "./types";
+
+/** Height of capital letters as a share of the font size. */
+export const WATERMARK_CAP_HEIGHT = 0.7;
+
+/** Space between tiled marks, as a share of the shorter side of the mark. */
+const TILE_GAP = 0.5;
+
+/**
+ * Where the watermark goes on a page: once in the middle, or tiled over the
+ * visible part of each image. `mark` is the size of the unrotated mark, text
+ * measured up to its cap height.
+ */
+export const watermarkMarks = (
+  settings: Pick<PdfSettings, "watermark" | "watermarkRepeat" | "watermarkRotation">,
+  page: Pick<PageLayout, "width" | "height" | "images">,
+  mark: { width: number; height: number },
+): PlacedMark[] => {
+  if (settings.watermark === "none" || !(mark.width > 0 && mark.height > 0)) return [];
+  const centredAt = (x: number, y: number): Rect => ({
+    x: x - mark.width / 2,
+    y: y - mark.height / 2,
+    width: mark.width,
+    height: mark.height,
+  });
+  if (settings.watermarkRepeat === "page") {
+    return [{ rect: centredAt(page.width / 2, page.height / 2) }];
+  }
+
+  // Tiles as large as the turned mark, so neighbours never touch.
+  const angle = (settings.watermarkRotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const gap = Math.min(mark.width, mark.height) * TILE_GAP;
+  const tileWidth = mark.width * cos + mark.height * sin + gap;
+  const tileHeight = mark.width * sin + mark.height * cos + gap;
+  return page.images.flatMap((placed) => {
+    const area = visibleRect(placed);
+    const columns = Math.max(1, Math.round(area.width / tileWidth));
+    const rows = Math.max(1, Math.round(area.height / tileHeight));
+    return Array.from({ length: columns * rows }, (_, tile) => ({
+      rect: centredAt(
+        area.x + ((tile % columns) + 0.5) * (area.width / columns),
+        area.y + (Math.floor(tile / columns) + 0.5) * (area.height / rows),
+      ),
+      clip: area,
+    }));
+  });
+};
+
+/**
+ * Point to draw a mark from (its bottom-left corner, or the text baseline)
+ * so that, turned by `rotation` degrees around that point, it stays centred
+ * on `rect`.
+ */
+export const rotatedOrigin = (rect: Rect, rotation: number) => {
+  const angle = (rotation * Math.PI) / 180;
+  const dx = -rect.width / 2;
+  const dy = -rect.height / 2;
+  return {
+    x: rect.x + rect.width / 2 + dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: rect.y + rect.height / 2 + dx * Math.sin(angle) + dy * Math.cos(angle),
+  };
+};
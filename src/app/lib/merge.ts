@@ -0,0 +1,79 @@
+import { PDFDocument, PDFPage } from "pdf-lib";
+import { PdfSettings } from "./types";
+
+/** Existing PDFs to merge with, read once per build. */
+export type MergeSource = {
+  documents: PDFDocument[];
+  pageCount: number;
+  /** Size of the files that could be read. */
+  bytes: number;
+  warnings: string[];
+};
+
+/** Reads the PDFs to merge; unreadable ones are left out with a warning. */
+export const loadMergeSource = async (files: File[]): Promise<MergeSource> => {
+  const source: MergeSource = { documents: [], pageCount: 0, bytes: 0, warnings: [] };
+  for (const file of files) {
+    try {
+      const document = await PDFDocument.load(await file.arrayBuffer());
+      source.documents.push(document);
+      source.pageCount += document.getPageCount();
+      source.bytes += file.size;
+    } catch (error) {
+      console.error(error);
+      source.warnings.push(`${file.name} omesso: il PDF è protetto da password o danneggiato.`);
+    }
+  }
+  return source;
+};
+
+/** How many existing pages come before the generated ones. */
+export const pagesBefore = (
+  settings: Pick<PdfSettings, "mergePosition" | "mergePage">,
+  pageCount: number,
+) =>
+  settings.mergePosition === "before"
+    ? 0
+    : settings.mergePosition === "after"
+      ? pageCount
+      : Math.min(pageCount, Math.max(0, settings.mergePage - 1));
+
+/**
+ * Where the generated pages are numbered from. Continued numbering starts
+ * them after the existing pages in front, and `trailingPages` are the
+ * existing pages after them, which `{pages}` also counts.
+ */
+export const mergedNumbering = <T extends Pick<
+  PdfSettings,
+  "mergePosition" | "mergePage" | "mergeNumbering" | "startingPageNumber"
+>>(settings: T, pageCount: number) => {
+  const before = pagesBefore(settings, pageCount);
+  const continued = settings.mergeNumbering === "continue";
+  return {
+    before,
+    continued,
+    layoutSettings: continued
+      ? { ...settings, startingPageNumber: settings.startingPageNumber + before }
+      : settings,
+    trailingPages: continued ? pageCount - before : 0,
+  };
+};
+
+/**
+ * Copies the existing pages into `pdfDoc` around the pages already in it, the
+ * first `before` of them in front. Returns the copies in their order.
+ */
+export const mergePages = async (pdfDoc: PDFDocument, source: MergeSource, before: number) => {
+  const copies: PDFPage[] = [];
+  for (const document of source.documents) {
+    copies.push(...await pdfDoc.copyPages(document, document.getPageIndices()));
+  }
+  copies.forEach((page, index) => {
+    if (index < before) {
+      pdfDoc.insertPage(index, page);
+    } else {
+      pdfDoc.addPage(page);
+    }
+  });
+  return copies;
+};
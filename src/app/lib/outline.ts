@@ -0,0 +1,43 @@
+import { PDFDocument, PDFHexString, PDFName, PDFPage, PDFRef } from "pdf-lib";
+import { Rect } from "./layout";
+
+// pdf-lib has no API for bookmarks or internal links, so the dictionaries
+// are written by hand.
+
+/** Makes `rect` on `page` jump to `target`, shown whole. */
+export const addLink = (pdfDoc: PDFDocument, page: PDFPage, rect: Rect, target: PDFPage) => {
+  const annotation = pdfDoc.context.obj({
+    Type: "Annot",
+    Subtype: "Link",
+    Rect: [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height],
+    Border: [0, 0, 0],
+    Dest: [target.ref, "Fit"],
+  });
+  page.node.addAnnot(pdfDoc.context.register(annotation));
+};
+
+/** Flat list of bookmarks, opened alongside the document. */
+export const addOutline = (pdfDoc: PDFDocument, entries: { title: string; page: PDFPage }[]) => {
+  if (!entries.length) return;
+  const { context } = pdfDoc;
+  const outlineRef = context.nextRef();
+  const refs: PDFRef[] = entries.map(() => context.nextRef());
+
+  entries.forEach(({ title, page }, index) => {
+    context.assign(refs[index], context.obj({
+      Title: PDFHexString.fromText(title),
+      Parent: outlineRef,
+      Dest: [page.ref, "Fit"],
+      ...(index > 0 ? { Prev: refs[index - 1] } : {}),
+      ...(index < entries.length - 1 ? { Next: refs[index + 1] } : {}),
+    }));
+  });
+  context.assign(outlineRef, context.obj({
+    Type: "Outlines",
+    First: refs[0],
+    Last: refs[refs.length - 1],
+    Count: entries.length,
+  }));
+  pdfDoc.catalog.set(PDFName.of("Outlines"), outlineRef);
+  pdfDoc.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+};
@@ -0,0 +1,16 @@
+import { PAGE_PRESETS } from "./constants";
+import { PdfSettings } from "./types";
+
+/** Page width and height in mm after applying size preset and orientation. */
+export const resolvePageSize = (
+  settings: Pick<PdfSettings, "pageSize" | "orientation" | "customPageWidth" | "customPageHeight">,
+) => {
+  const { width, height } = settings.pageSize === "custom"
+    ? { width: settings.customPageWidth, height: settings.customPageHeight }
+    : PAGE_PRESETS[settings.pageSize];
+  const short = Math.min(width, height);
+  const long = Math.max(width, height);
+  return settings.orientation === "landscape"
+    ? { width: long, height: short }
+    : { width: short, height: long };
+};
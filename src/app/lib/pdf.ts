@@ -1,208 +1,332 @@
-import { PDFDocument, StandardFonts, PDFImage } from "pdf-lib";
-import { PAGE_PRESETS } from "./constants";
-import { DrawableImage, PagePresetKey, UploadItem } from "./types";
+import {
+  clip,
+  degrees,
+  endPath,
+  PDFDocument,
+  PDFImage,
+  PDFPage,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+} from "pdf-lib";
+import { createFontResolver, FontResolver } from "./fonts";
+import {
+  computeLayout,
+  CUT_LINE_WIDTH,
+  fitRect,
+  MARGIN_LOGO_GAP,
+  MarginText,
+  marginTexts,
+  OVERLAY_BACKGROUND_OPACITY,
+  PageLayout,
+  PlacedText,
+  rotatedOrigin,
+  toLayoutImages,
+  WATERMARK_CAP_HEIGHT,
+  watermarkMarks,
+} from "./layout";
+import { parseHexColor } from "./colors";
+import { TextMeasurer } from "./text";
+import { BuildProgress, PdfSettings, UploadItem } from "./types";
+import { canPassThrough, ProcessedImage, readOriginal } from "./processing";
+import { hashFile } from "./hash";
+import { effectiveEdits } from "./edits";
+import { createImagePool } from "./workerPool";
+import { pendingOrientation } from "./images";
+import { ImagePlan, MB, planSize } from "./budget";
+import { formatMB } from "./units";
+import { addLink, addOutline } from "./outline";
+import { loadMergeSource, mergedNumbering, mergePages } from "./merge";
+
+const SIZE_ATTEMPTS = 3;
+/** Aims a little below the budget on retries. */
+const SIZE_SAFETY = 1.05;
 
 interface Args {
   uploads: UploadItem[];
+  /** Existing PDFs the generated pages are merged with. */
+  mergePdfs?: File[];
   isBuilding: boolean;
   setIsBuilding: (v: boolean) => void;
   setStatus: (v: string) => void;
-  pageSize: PagePresetKey;
-  columns: number;
-  verticalPadding: number;
-  leftPadding: number;
-  rightPadding: number;
-  gutter: number;
-  maxSide: number;
-  jpegQuality: number;
-  fileName: string;
-  headerText: string;
-  footerText: string;
-  startingPageNumber: number;
-  logo?: File;
+  setProgress: (v: BuildProgress | null) => void;
+  /** Called once per build with the reason each skipped image failed, by upload id. */
+  setFailures: (v: Record<string, string>) => void;
+  settings: PdfSettings;
+  signal?: AbortSignal;
 }
 
 export const generatePdf: (args: Args) => Promise<void> = async ({
   uploads,
+  mergePdfs = [],
   isBuilding,
   setIsBuilding,
   setStatus,
-  pageSize,
-  columns,
-  verticalPadding,
-  leftPadding,
-  rightPadding,
-  gutter,
-  maxSide,
-  jpegQuality,
-  fileName,
-  headerText,
-  footerText,
-  startingPageNumber,
-  logo,
+  setProgress,
+  setFailures,
+  settings,
+  signal,
 }) => {
   if (!uploads.length || isBuilding) return;
   setIsBuilding(true);
   setStatus("Preparazione...");
 
-  try {
-    const PT_PER_MM = 72 / 25.4;
-    const preset = PAGE_PRESETS[pageSize];
-    const pageWidth = preset.width * PT_PER_MM;
-    const pageHeight = preset.height * PT_PER_MM;
-    const verticalPaddingPt = verticalPadding * PT_PER_MM;
-    const leftPaddingPt = leftPadding * PT_PER_MM;
-    const rightPaddingPt = rightPadding * PT_PER_MM;
-    const gutterPt = gutter * PT_PER_MM;
-
-    const headerSpace = headerText.trim() ? 40 : 0; // pt
-
-    const safeColumns = Math.max(1, columns);
-    const cellWidth = Math.max(
-      40,
-      (pageWidth - leftPaddingPt - rightPaddingPt - gutterPt * (safeColumns - 1)) / safeColumns,
-    );
-    const cellHeight = cellWidth;
-    const rowsPerPage = Math.max(
-      1,
-      Math.floor((pageHeight - headerSpace - verticalPaddingPt * 2 + gutterPt) / (cellHeight + gutterPt)),
-    );
+  const { fileName, logo, customFont } = settings;
 
-    const pdfDoc = await PDFDocument.create();
-    const font = pdfDoc.embedStandardFont(StandardFonts.Helvetica);
-    const fontSize = 10;
-    const textPadding = 5;
-
-    let embeddedLogo: PDFImage | null = null;
-    if (logo) {
-      setStatus("Elaborazione logo...");
-      const processedLogo = await downscaleForPdf(logo, 500, 0.95);
-      embeddedLogo = processedLogo.mimeType === "image/png"
-        ? await pdfDoc.embedPng(processedLogo.bytes)
-        : await pdfDoc.embedJpg(processedLogo.bytes);
-    }
+  const pool = createImagePool();
+  const abort = () => pool.terminate();
+  signal?.addEventListener("abort", abort);
 
-    let page = pdfDoc.addPage([pageWidth, pageHeight]);
-    let col = 0;
-    let row = 0;
-
-    for (let i = 0; i < uploads.length; i++) {
-      const upload = uploads[i];
-      setStatus(`Immagine ${i + 1} di ${uploads.length}...`);
-      const processed = await downscaleForPdf(upload.file, maxSide, jpegQuality);
-      const embedded =
-        processed.mimeType === "image/png"
-          ? await pdfDoc.embedPng(processed.bytes)
-          : await pdfDoc.embedJpg(processed.bytes);
-
-      if (row >= rowsPerPage) {
-        page = pdfDoc.addPage([pageWidth, pageHeight]);
-        row = 0;
-        col = 0;
-      }
+  try {
+    if (mergePdfs.length) setStatus("Lettura dei PDF da unire...");
+    const merge = await loadMergeSource(mergePdfs);
+    const { before, continued, layoutSettings, trailingPages } = mergedNumbering(settings, merge.pageCount);
 
-      const x = leftPaddingPt + col * (cellWidth + gutterPt);
-      const baseY = (pageHeight - headerSpace) - verticalPaddingPt - cellHeight - row * (cellHeight + gutterPt);
-      const scale = Math.min(
-        cellWidth / embedded.width,
-        cellHeight / embedded.height,
+    const renderDocument = async (plans: ImagePlan[]) => {
+      const pdfDoc = await PDFDocument.create();
+      setDocumentInfo(pdfDoc, settings);
+      const { resolve, missing, warnings } = await createFontResolver(
+        pdfDoc,
+        [
+          settings.captionStyle.family,
+          settings.headerStyle.family,
+          settings.footerStyle.family,
+          ...(settings.watermark === "text" ? [settings.watermarkStyle.family] : []),
+        ],
+        customFont,
+      );
+      const measure: TextMeasurer = (text, style) => {
+        const resolved = resolve(style.family, text);
+        return resolved.font.widthOfTextAtSize(resolved.text, style.size);
+      };
+      const layout = computeLayout(
+        layoutSettings,
+        toLayoutImages(uploads, settings),
+        measure,
+        trailingPages,
       );
-      const drawWidth = embedded.width * scale;
-      const drawHeight = embedded.height * scale;
-
-      page.drawImage(embedded, {
-        x: x + (cellWidth - drawWidth) / 2,
-        y: baseY + (cellHeight - drawHeight) / 2,
-        width: drawWidth,
-        height: drawHeight,
-      });
-
-      // Draw image title as caption
-      const text = upload.file.name.replace(/\.[^/.]+$/, "");
-      const textWidth = font.widthOfTextAtSize(text, fontSize);
-      const textX = x + (cellWidth - textWidth) / 2;
-      const textY = baseY + (cellHeight - drawHeight) / 2 - fontSize - textPadding;
-      page.drawText(text, {
-        x: textX,
-        y: textY,
-        size: fontSize,
-        font,
-      });
-
-      col += 1;
-      if (col >= safeColumns) {
-        col = 0;
-        row += 1;
+      warnings.push(...merge.warnings);
+
+      let embeddedLogo: PDFImage | null = null;
+      if (logo) {
+        setStatus("Elaborazione logo...");
+        embeddedLogo = await embedProcessed(
+          pdfDoc,
+          pool.process(logo, { maxSide: settings.coverPage ? 1200 : 500, quality: 0.95 }),
+          signal,
+        ).catch((error: unknown) => {
+          if (signal?.aborted) throw error;
+          warnings.push(`Logo omesso. ${error instanceof Error ? error.message : String(error)}`);
+          return null;
+        });
       }
-    }
 
-    const allPages = pdfDoc.getPages();
-    const headerTextExists = headerText.trim();
-    const footerTextExists = footerText.trim();
-    allPages.forEach((page, index) => {
-      if (footerTextExists) {
-        const footerFontSize = 8;
-        const footerY = 20;
-        const textWidth = font.widthOfTextAtSize(footerText, footerFontSize);
-        const availableWidth = pageWidth - leftPaddingPt - rightPaddingPt;
-        const textX = leftPaddingPt + (availableWidth - textWidth) / 2;
-        page.drawText(footerText, {
-          x: textX,
-          y: footerY,
-          size: footerFontSize,
-          font,
+      let watermarkImage = embeddedLogo;
+      if (settings.watermark === "image" && settings.watermarkImage) {
+        setStatus("Elaborazione filigrana...");
+        watermarkImage = await embedProcessed(
+          pdfDoc,
+          pool.process(settings.watermarkImage, { maxSide: 1200, quality: 0.95 }),
+          signal,
+        ).catch((error: unknown) => {
+          if (signal?.aborted) throw error;
+          warnings.push(`Filigrana omessa. ${error instanceof Error ? error.message : String(error)}`);
+          return null;
         });
       }
 
-      if (headerTextExists) {
-        const headerFontSize = 8;
-        const headerY = pageHeight - 20;
-        const textWidth = font.widthOfTextAtSize(headerText, headerFontSize);
-        let logoWidth = 0;
-        let logoHeight = 0;
-        if (embeddedLogo) {
-          const scale = (headerFontSize * 3) / embeddedLogo.height;
-          logoWidth = embeddedLogo.width * scale;
-          logoHeight = embeddedLogo.height * scale;
+      // Images are resized in parallel a few steps ahead of the one being
+      // embedded, so only a bounded number of results sits in memory.
+      // Identical files are processed and embedded once, at the largest size
+      // any of their cells needs, and the XObject is shared.
+      const order = layout.pages.flatMap((pageLayout) => pageLayout.images.map(({ index }) => index));
+      const ahead = pool.concurrency * 2;
+      const background = flattenBackground(settings);
+      // Copies of a file edited in different ways are different images.
+      const keys = await Promise.all(uploads.map(async (upload) =>
+        `${await hashFile(upload.file)}:${JSON.stringify(effectiveEdits(upload, settings) ?? null)}`));
+      const sources = new Map<string, number[]>();
+      order.forEach((index) => sources.set(keys[index], [...(sources.get(keys[index]) ?? []), index]));
+      const sourceKeys = Array.from(sources.keys());
+
+      const optionsFor = (key: string) => {
+        const indices = sources.get(key)!;
+        return {
+          upload: uploads[indices[0]],
+          maxSide: Math.max(...indices.map((index) => plans[index].maxSide)),
+          quality: Math.max(...indices.map((index) => plans[index].quality)),
+          background,
+          edits: effectiveEdits(uploads[indices[0]], settings),
+        };
+      };
+      const resize = async (key: string) => {
+        const { upload, ...options } = optionsFor(key);
+        return pool.process(upload.file, {
+          ...options,
+          orientation: await pendingOrientation(upload.orientation),
+        });
+      };
+      const load = (key: string) => {
+        const { upload, ...options } = optionsFor(key);
+        return canPassThrough({ ...upload, type: upload.file.type }, options)
+          ? readOriginal(upload.file, upload.width, upload.height)
+          : resize(key);
+      };
+
+      const pending = new Map<string, Promise<ProcessedImage>>();
+      const embeddedImages = new Map<string, Promise<PDFImage | ImageFailure>>();
+      let scheduled = 0;
+      const schedule = () => {
+        while (scheduled < sourceKeys.length && pending.size < ahead) {
+          const key = sourceKeys[scheduled++];
+          const job = load(key);
+          job.catch(() => undefined);
+          pending.set(key, job);
         }
-        const padding = 5; // pt
-        const totalWidth = logoWidth + (logoWidth > 0 ? padding : 0) + textWidth;
-        const availableWidth = pageWidth - leftPaddingPt - rightPaddingPt;
-        const startX = leftPaddingPt + (availableWidth - totalWidth) / 2;
-        if (embeddedLogo) {
-          page.drawImage(embeddedLogo, {
-            x: startX,
-            y: headerY - logoHeight / 2,
-            width: logoWidth,
-            height: logoHeight,
+      };
+
+      const startedAt = Date.now();
+      const bytesTotal = uploads.reduce((sum, item) => sum + item.size, 0);
+      const failures: Record<string, string> = {};
+      let done = 0;
+      let bytesDone = 0;
+      setProgress({ done, total: order.length, bytesDone, bytesTotal, elapsed: 0 });
+
+      const pages: PDFPage[] = [];
+      for (const pageLayout of layout.pages) {
+        const page = pdfDoc.addPage([pageLayout.width, pageLayout.height]);
+        pages.push(page);
+        if (pageLayout.title) drawPlacedText(page, pageLayout.title, resolve);
+        pageLayout.texts?.forEach((line) => drawPlacedText(page, line, resolve));
+        if (pageLayout.logo && embeddedLogo) {
+          page.drawImage(embeddedLogo, fitRect(pageLayout.logo, embeddedLogo.width, embeddedLogo.height));
+        }
+
+        for (const placed of pageLayout.images) {
+          const upload = uploads[placed.index];
+          const key = keys[placed.index];
+          if (!embeddedImages.has(key)) {
+            schedule();
+            const job = pending.get(key)!;
+            pending.delete(key);
+            embeddedImages.set(key, embedProcessed(pdfDoc, job, signal)
+              // Original bytes pdf-lib cannot parse get decoded and re-encoded.
+              .catch((error: unknown) => {
+                if (signal?.aborted || !(error instanceof ImageFailure)) throw error;
+                const { upload: source, ...options } = optionsFor(key);
+                if (!canPassThrough({ ...source, type: source.file.type }, options)) throw error;
+                return embedProcessed(pdfDoc, resize(key), signal);
+              })
+              .catch((error: unknown) => {
+                if (signal?.aborted) throw error;
+                console.error(error);
+                return error instanceof ImageFailure ? error : new ImageFailure(String(error));
+              }));
+          }
+          const result = await embeddedImages.get(key)!;
+          const embedded = result instanceof ImageFailure ? null : result;
+          if (result instanceof ImageFailure) failures[upload.id] = result.message;
+          done += 1;
+          bytesDone += upload.size;
+          setStatus(`Immagine ${done} di ${order.length}...`);
+          setProgress({
+            done,
+            total: order.length,
+            bytesDone,
+            bytesTotal,
+            elapsed: Date.now() - startedAt,
           });
+
+          // A failed image leaves its cell empty; the rest of the page goes on.
+          if (!embedded) continue;
+          // A turned print rotates about its bottom-left corner, which ends
+          // up at the bottom-right of the rect it covers.
+          const drawn = placed.rotated
+            ? {
+              x: placed.image.x + placed.image.width,
+              y: placed.image.y,
+              width: placed.image.height,
+              height: placed.image.width,
+              rotate: degrees(90),
+            }
+            : placed.image;
+          if (placed.clip) {
+            const { x, y, width, height } = placed.clip;
+            page.pushOperators(pushGraphicsState(), rectangle(x, y, width, height), clip(), endPath());
+            page.drawImage(embedded, drawn);
+            page.pushOperators(popGraphicsState());
+          } else {
+            page.drawImage(embedded, drawn);
+          }
+
+          if (placed.captionBackground) {
+            page.drawRectangle({
+              ...placed.captionBackground,
+              color: rgb(0, 0, 0),
+              opacity: OVERLAY_BACKGROUND_OPACITY,
+            });
+          }
+          placed.caption.forEach((line) => drawPlacedText(page, line, resolve));
         }
-        const textX = startX + logoWidth + (logoWidth > 0 ? padding : 0);
-        page.drawText(headerText, {
-          x: textX,
-          y: headerY,
-          size: headerFontSize,
-          font,
+
+        pageLayout.cutLines?.forEach(({ x1, y1, x2, y2 }) => page.drawLine({
+          start: { x: x1, y: y1 },
+          end: { x: x2, y: y2 },
+          thickness: CUT_LINE_WIDTH,
+          color: rgb(0, 0, 0),
+        }));
+        drawMargins(page, pageLayout.margins, resolve, embeddedLogo);
+        drawWatermark(page, pageLayout, settings, resolve, watermarkImage);
+      }
+
+      const existing = await mergePages(pdfDoc, merge, before);
+      if (continued) {
+        // An unnumbered cover also leaves out of the count the pages after it.
+        const skipped = settings.coverPage && !settings.numberCover ? 1 : 0;
+        const pages = settings.startingPageNumber + merge.pageCount + layout.pages.length - 1 - skipped;
+        existing.forEach((page, index) => {
+          const position = index < before ? index : index + layout.pages.length;
+          const number = settings.startingPageNumber + position - (index < before ? 0 : skipped);
+          const { width, height } = page.getSize();
+          drawMargins(page, marginTexts(settings, { number, pages }, width, height), resolve, embeddedLogo);
         });
       }
 
-      // Page numbering
-      const pageNumber = startingPageNumber + index;
-      const pageNumberText = pageNumber.toString();
-      const pageNumberFontSize = 8;
-      const pageNumberWidth = font.widthOfTextAtSize(pageNumberText, pageNumberFontSize);
-      const pageNumberX = pageWidth - pageNumberWidth - 20;
-      const pageNumberY = 20;
-      page.drawText(pageNumberText, {
-        x: pageNumberX,
-        y: pageNumberY,
-        size: pageNumberFontSize,
-        font,
-      });
-    });
+      layout.pages.forEach((pageLayout, index) =>
+        pageLayout.links?.forEach((link) => addLink(pdfDoc, pages[index], link.rect, pages[link.page])));
+      addOutline(pdfDoc, layout.sections.map(({ title, page }) => ({ title, page: pages[page] })));
 
-    setStatus("Sto generando il PDF...");
-    const pdfBytes = await pdfDoc.save();
+      setProgress(null);
+      setStatus("Sto generando il PDF...");
+      return { bytes: await pdfDoc.save(), missing, warnings, failures };
+    };
+
+    // In target size mode a build over budget is retried with the estimate
+    // corrected by what the previous attempt actually weighed.
+    // Merged PDFs are copied as they are, so the images get what they leave.
+    const budget = settings.sizeMode === "target" ? settings.targetSizeMB * MB : Infinity;
+    const imageSettings = {
+      ...layoutSettings,
+      targetSizeMB: Math.max(0, settings.targetSizeMB - merge.bytes / MB),
+    };
+    let calibration = 1;
+    let plan = planSize(uploads, imageSettings);
+    let result = await renderDocument(plan.images);
+    for (let attempt = 2; result.bytes.length > budget && attempt <= SIZE_ATTEMPTS; attempt++) {
+      setStatus(`Il PDF supera ${formatMB(budget)}, nuovo tentativo (${attempt} di ${SIZE_ATTEMPTS})...`);
+      calibration *= (Math.max(1, result.bytes.length - merge.bytes) / plan.estimate) * SIZE_SAFETY;
+      plan = planSize(uploads, imageSettings, calibration);
+      result = await renderDocument(plan.images);
+    }
+    const { bytes: pdfBytes, missing, warnings, failures } = result;
+
+    setFailures(failures);
+    const failed = uploads.filter((upload) => failures[upload.id]);
+    if (failed.length === uploads.length) {
+      setStatus("Nessuna immagine è stata elaborata: controlla i file segnalati nell'anteprima.");
+      return;
+    }
     const blob = new Blob([pdfBytes as BlobPart], { type: "application/pdf" });
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
@@ -214,85 +338,196 @@ export const generatePdf: (args: Args) => Promise<void> = async ({
     link.href = url;
     link.click();
     URL.revokeObjectURL(url);
-    setStatus(`PDF pronto (${(pdfBytes.length / 1024 / 1024).toFixed(1)} MB).`);
+    setStatus(
+      `PDF pronto (${formatMB(pdfBytes.length)}).` +
+        (pdfBytes.length > budget
+          ? ` Non è stato possibile scendere sotto ${formatMB(budget)}: riduci il numero di immagini o aumenta il limite.`
+          : "") +
+        (missing.size
+          ? ` Alcuni caratteri non sono disponibili nel font scelto e sono stati sostituiti (${Array.from(missing).join(" ")}): carica un font TTF/OTF che li contenga.`
+          : "") +
+        warnings.map((warning) => ` ${warning}`).join("") +
+        (failed.length
+          ? ` ${failed.length === 1 ? "1 immagine è stata saltata" : `${failed.length} immagini sono state saltate`}` +
+            ` (${failed.map((upload) => upload.name).join(", ")}): vedi i dettagli nell'anteprima.`
+          : ""),
+    );
   } catch (error) {
+    if (signal?.aborted) {
+      setStatus("Generazione annullata.");
+      return;
+    }
     console.error(error);
     setStatus(
       "Non è stato possibile generare il PDF. Prova a ridurre il lato massimo immagine o il numero di colonne.",
     );
   } finally {
+    signal?.removeEventListener("abort", abort);
+    pool.terminate();
+    setProgress(null);
     setIsBuilding(false);
   }
 };
 
-async function downscaleForPdf(file: File, maxSide: number, quality: number) {
-  const { image, revoke } = await loadDrawableImage(file);
-  const width = image.width;
-  const height = image.height;
-  const ratio = Math.min(1, maxSide / Math.max(width, height));
-  const targetWidth = Math.max(1, Math.round(width * ratio));
-  const targetHeight = Math.max(1, Math.round(height * ratio));
-
-  const canvas = document.createElement("canvas");
-  canvas.width = targetWidth;
-  canvas.height = targetHeight;
-
-  const context = canvas.getContext("2d");
-  if (!context) {
-    revoke?.();
-    throw new Error("Canvas not supported in this browser.");
+class ImageFailure extends Error {}
+
+const setDocumentInfo = (
+  pdfDoc: PDFDocument,
+  settings: Pick<PdfSettings, "documentTitle" | "documentAuthor" | "documentSubject" | "documentKeywords">,
+) => {
+  const title = settings.documentTitle.trim();
+  const author = settings.documentAuthor.trim();
+  const subject = settings.documentSubject.trim();
+  const keywords = settings.documentKeywords.split(",").map((keyword) => keyword.trim()).filter(Boolean);
+  if (title) pdfDoc.setTitle(title, { showInWindowTitleBar: true });
+  if (author) pdfDoc.setAuthor(author);
+  if (subject) pdfDoc.setSubject(subject);
+  if (keywords.length) pdfDoc.setKeywords(keywords);
+  const now = new Date();
+  pdfDoc.setCreationDate(now);
+  pdfDoc.setModificationDate(now);
+};
+
+/** Waits for a resized image and embeds it, turning errors into user-facing reasons. */
+const embedProcessed = async (
+  pdfDoc: PDFDocument,
+  job: Promise<ProcessedImage>,
+  signal?: AbortSignal,
+) => {
+  let processed: ProcessedImage;
+  try {
+    processed = await job;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new ImageFailure(`Immagine non leggibile: file danneggiato o formato non supportato${detail(error)}.`);
+  }
+  signal?.throwIfAborted();
+  try {
+    return processed.mimeType === "image/png"
+      ? await pdfDoc.embedPng(processed.bytes)
+      : await pdfDoc.embedJpg(processed.bytes);
+  } catch (error) {
+    throw new ImageFailure(`Impossibile inserire l'immagine nel PDF${detail(error)}.`);
   }
+};
 
-  context.imageSmoothingEnabled = true;
-  context.imageSmoothingQuality = "high";
-  context.drawImage(image, 0, 0, targetWidth, targetHeight);
-
-  const mimeType = file.type === "image/png" ? "image/png" : "image/jpeg";
-  const blob = await new Promise<Blob>((resolve, reject) => {
-    canvas.toBlob(
-      (value) => {
-        if (value) {
-          resolve(value);
-        } else {
-          reject(new Error("Unable to encode image."));
-        }
-      },
-      mimeType,
-      mimeType === "image/jpeg" ? quality : undefined,
-    );
-  });
+const flattenBackground = (settings: Pick<PdfSettings, "transparency" | "backgroundColor">) =>
+  settings.transparency === "flatten" ? settings.backgroundColor : undefined;
+
+const detail = (error: unknown) =>
+  error instanceof Error && error.message ? ` (${error.message.replace(/\.$/, "")})` : "";
 
-  if ("close" in image && typeof (image as ImageBitmap).close === "function") {
-    (image as ImageBitmap).close();
+/**
+ * Checks a single image on its own, the way `generatePdf` would process it.
+ * Returns the failure reason, or undefined when the image is fine.
+ */
+export const probeImage = async (
+  upload: UploadItem,
+  settings: Pick<PdfSettings, "maxSide" | "jpegQuality" | "transparency" | "backgroundColor" | "grayscale">,
+) => {
+  const pool = createImagePool(1);
+  try {
+    const pdfDoc = await PDFDocument.create();
+    await embedProcessed(
+      pdfDoc,
+      pool.process(upload.file, {
+        maxSide: settings.maxSide,
+        quality: settings.jpegQuality,
+        orientation: await pendingOrientation(upload.orientation),
+        background: flattenBackground(settings),
+        edits: effectiveEdits(upload, settings),
+      }),
+    );
+    return undefined;
+  } catch (error) {
+    return error instanceof ImageFailure ? error.message : String(error);
+  } finally {
+    pool.terminate();
   }
-  revoke?.();
-
-  const arrayBuffer = await blob.arrayBuffer();
-  return {
-    bytes: new Uint8Array(arrayBuffer),
-    width: targetWidth,
-    height: targetHeight,
-    mimeType,
-  };
-}
+};
 
-async function loadDrawableImage(
-  file: File,
-): Promise<{ image: DrawableImage; revoke?: () => void }> {
-  if (typeof createImageBitmap === "function") {
-    const bitmap = await createImageBitmap(file);
-    return { image: bitmap };
+/** Header and footer slots, the logo before the text of its slot. */
+const drawMargins = (
+  page: PDFPage,
+  margins: MarginText[],
+  resolve: FontResolver,
+  logo: PDFImage | null,
+) => margins.forEach((margin) => {
+  const { font, text } = resolve(margin.family, margin.text);
+  const textWidth = font.widthOfTextAtSize(text, margin.fontSize);
+  const logoHeight = logo && margin.logoHeight ? margin.logoHeight : 0;
+  const logoWidth = logo && logoHeight ? (logo.width * logoHeight) / logo.height : 0;
+  const gap = logoWidth && textWidth ? MARGIN_LOGO_GAP : 0;
+  const totalWidth = logoWidth + gap + textWidth;
+  const { rect } = margin;
+  const startX =
+    margin.align === "left"
+      ? rect.x
+      : margin.align === "right"
+        ? rect.x + rect.width - totalWidth
+        : rect.x + (rect.width - totalWidth) / 2;
+  if (logo && logoWidth) {
+    page.drawImage(logo, {
+      x: startX,
+      y: rect.y - logoHeight / 2,
+      width: logoWidth,
+      height: logoHeight,
+    });
   }
+  if (text) {
+    const { r, g, b } = parseHexColor(margin.color ?? "#000000");
+    page.drawText(text, { x: startX + logoWidth + gap, y: rect.y, size: margin.fontSize, font, color: rgb(r, g, b) });
+  }
+});
 
-  const url = URL.createObjectURL(file);
-  return await new Promise((resolve, reject) => {
-    const img = new Image();
-    img.decoding = "async";
-    img.onload = () => resolve({ image: img, revoke: () => URL.revokeObjectURL(url) });
-    img.onerror = (error) => {
-      URL.revokeObjectURL(url);
-      reject(error);
-    };
-    img.src = url;
+/**
+ * Text or image over the finished page, shared once as a resource however
+ * many times it repeats.
+ */
+const drawWatermark = (
+  page: PDFPage,
+  pageLayout: PageLayout,
+  settings: PdfSettings,
+  resolve: FontResolver,
+  image: PDFImage | null,
+) => {
+  const { watermark, watermarkStyle, watermarkRotation: rotation, watermarkOpacity: opacity } = settings;
+  if (watermark === "none" || (watermark === "image" && !image)) return;
+  const { font, text } = resolve(watermarkStyle.family, settings.watermarkText.trim());
+  const mark = watermark === "image" && image
+    ? { width: (image.width * watermarkStyle.size) / image.height, height: watermarkStyle.size }
+    : { width: font.widthOfTextAtSize(text, watermarkStyle.size), height: watermarkStyle.size * WATERMARK_CAP_HEIGHT };
+  const { r, g, b } = parseHexColor(settings.watermarkColor);
+
+  watermarkMarks(settings, pageLayout, mark).forEach(({ rect, clip: area }) => {
+    if (area) {
+      page.pushOperators(pushGraphicsState(), rectangle(area.x, area.y, area.width, area.height), clip(), endPath());
+    }
+    const origin = { ...rotatedOrigin(rect, rotation), rotate: degrees(rotation), opacity };
+    if (watermark === "image" && image) {
+      page.drawImage(image, { ...origin, width: rect.width, height: rect.height });
+    } else {
+      page.drawText(text, { ...origin, size: watermarkStyle.size, font, color: rgb(r, g, b) });
+    }
+    if (area) page.pushOperators(popGraphicsState());
   });
-}
+};
+
+const drawPlacedText = (page: PDFPage, placed: PlacedText, resolve: FontResolver) => {
+  const { font, text } = resolve(placed.family, placed.text);
+  const textWidth = font.widthOfTextAtSize(text, placed.fontSize);
+  const x =
+    placed.align === "left"
+      ? placed.rect.x
+      : placed.align === "right"
+        ? placed.rect.x + placed.rect.width - textWidth
+        : placed.rect.x + (placed.rect.width - textWidth) / 2;
+  const { r, g, b } = parseHexColor(placed.color ?? "#000000");
+  page.drawText(text, {
+    x,
+    y: placed.rect.y,
+    size: placed.fontSize,
+    font,
+    color: rgb(r, g, b),
+  });
+};
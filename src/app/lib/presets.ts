@@ -0,0 +1,124 @@
+import { Preset, withDefaults } from "./storage";
+import { PdfSettings } from "./types";
+import { DEFAULT_SETTINGS } from "./constants";
+import { generateId } from "./ids";
+
+// Presets travel as JSON; the logo, custom font and watermark image are
+// inlined as data URLs.
+
+const PRESETS_VERSION = 1;
+
+type EncodedFile = { name: string; type: string; data: string };
+
+type EncodedPreset = {
+  name: string;
+  isDefault?: boolean;
+  settings: Omit<PdfSettings, "logo" | "customFont" | "watermarkImage"> & {
+    logo?: EncodedFile;
+    customFont?: EncodedFile;
+    watermarkImage?: EncodedFile;
+  };
+};
+
+type PresetsFile = { version: number; presets: EncodedPreset[] };
+
+export class PresetsFileError extends Error {}
+
+const encodeFile = async (file: File): Promise<EncodedFile> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return { name: file.name, type: file.type, data: `data:${file.type};base64,${btoa(binary)}` };
+};
+
+/** Only base64 data URLs are read, never fetched, so a file cannot point elsewhere. */
+const decodeFile = ({ name, type, data }: EncodedFile) => {
+  const base64 = typeof data === "string" ? /^data:[^,;]*;base64,([^,]*)$/.exec(data)?.[1] : undefined;
+  let binary: string;
+  try {
+    if (base64 === undefined) throw new Error();
+    binary = atob(base64);
+  } catch {
+    throw new PresetsFileError(`Il file "${name}" nei preset non è valido.`);
+  }
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new File([bytes], String(name), { type: String(type ?? "") });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * The settings of `raw` known to `defaults` and of the same type, nested
+ * styles included; anything else is left to the defaults.
+ */
+const matchingSettings = (raw: Record<string, unknown>, defaults: object): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(defaults).flatMap(([key, fallback]) => {
+    const value = raw[key];
+    if (typeof value !== typeof fallback) return [];
+    if (typeof value === "number" && !Number.isFinite(value)) return [];
+    if (isRecord(fallback)) {
+      return isRecord(value) ? [[key, { ...fallback, ...matchingSettings(value, fallback) }]] : [];
+    }
+    return [[key, value]];
+  }));
+
+export async function exportPresets(presets: Preset[], defaultId?: string): Promise<Blob> {
+  const file: PresetsFile = {
+    version: PRESETS_VERSION,
+    presets: await Promise.all(presets.map(async ({ id, name, settings }) => {
+      const { logo, customFont, watermarkImage, ...rest } = settings;
+      return {
+        name,
+        isDefault: id === defaultId || undefined,
+        settings: {
+          ...rest,
+          logo: logo && await encodeFile(logo),
+          customFont: customFont && await encodeFile(customFont),
+          watermarkImage: watermarkImage && await encodeFile(watermarkImage),
+        },
+      };
+    })),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+}
+
+/** Presets read from a file made by `exportPresets`, with fresh ids. */
+export async function importPresets(source: File): Promise<{ presets: Preset[]; defaultId?: string }> {
+  let file: PresetsFile;
+  try {
+    file = JSON.parse(await source.text());
+  } catch {
+    throw new PresetsFileError("Il file non è un JSON valido.");
+  }
+  if (!Array.isArray(file?.presets)) throw new PresetsFileError("Il file non contiene preset.");
+  if (file.version > PRESETS_VERSION) {
+    throw new PresetsFileError("I preset sono stati creati con una versione più recente dell'app.");
+  }
+
+  let defaultId: string | undefined;
+  const presets = file.presets.map((preset) => {
+    if (!isRecord(preset) || !isRecord(preset.settings)) {
+      throw new PresetsFileError("Il file contiene un preset senza impostazioni.");
+    }
+    const { name, isDefault, settings } = preset as EncodedPreset;
+    const { logo, customFont, watermarkImage } = settings;
+    const id = generateId();
+    if (isDefault) defaultId = id;
+    return withDefaults({
+      id,
+      name: String(name),
+      settings: {
+        ...(matchingSettings(settings, DEFAULT_SETTINGS) as PdfSettings),
+        // The cover image names an upload of another project.
+        coverImageId: undefined,
+        logo: logo && decodeFile(logo),
+        customFont: customFont && decodeFile(customFont),
+        watermarkImage: watermarkImage && decodeFile(watermarkImage),
+      },
+    });
+  });
+  return { presets, defaultId };
+}
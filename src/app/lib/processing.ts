@@ -0,0 +1,148 @@
+import { adjustTones, changesTones, hasEdits } from "./edits";
+import { ImageEdits } from "./types";
+
+// Helpers shared by the main-thread and the worker image pipelines.
+
+export type ProcessOptions = {
+  maxSide: number;
+  quality: number;
+  /** EXIF orientation the decoder did not already apply. */
+  orientation?: number;
+  /** Hex colour transparent areas are flattened onto; alpha is kept when omitted. */
+  background?: string;
+  edits?: ImageEdits;
+};
+
+export type ProcessedImage = {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+  mimeType: OutputMimeType;
+};
+
+export type OutputMimeType = "image/png" | "image/jpeg";
+
+/** Formats that can carry transparency. */
+const ALPHA_TYPES = ["image/png", "image/webp", "image/avif", "image/gif"];
+
+/** PNG sources stay lossless and transparent images keep their alpha. */
+export const outputMimeType = (type: string, transparent = false): OutputMimeType =>
+  type === "image/png" || transparent ? "image/png" : "image/jpeg";
+
+/**
+ * Whether the original bytes can go into the PDF as they are: a JPEG or PNG
+ * already small enough, upright, unedited and with no background to flatten
+ * onto.
+ */
+export const canPassThrough = (
+  source: { type: string; width: number; height: number; orientation?: number },
+  options: Pick<ProcessOptions, "maxSide" | "background" | "edits">,
+) =>
+  (source.type === "image/jpeg" || (source.type === "image/png" && !options.background)) &&
+  !hasEdits(options.edits) &&
+  (source.orientation ?? 1) === 1 &&
+  source.width > 0 &&
+  Math.max(source.width, source.height) <= options.maxSide;
+
+export const readOriginal = async (
+  file: File,
+  width: number,
+  height: number,
+): Promise<ProcessedImage> => ({
+  bytes: new Uint8Array(await file.arrayBuffer()),
+  width,
+  height,
+  mimeType: file.type === "image/png" ? "image/png" : "image/jpeg",
+});
+
+/** Pixel size after shrinking the longest side to `maxSide` (never enlarges). */
+export const targetSize = (width: number, height: number, maxSide: number) => {
+  const ratio = Math.min(1, maxSide / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * ratio)),
+    height: Math.max(1, Math.round(height * ratio)),
+  };
+};
+
+/** Orientations 5 to 8 turn the image by a quarter, swapping its sides. */
+export const swapsSides = (orientation = 1) => orientation >= 5 && orientation <= 8;
+
+export const orientedSize = (width: number, height: number, orientation?: number) =>
+  swapsSides(orientation) ? { width: height, height: width } : { width, height };
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** Output format for what was drawn into `context` from a `type` source. */
+export const encodingFor = (
+  context: Context2D | null,
+  type: string,
+  width: number,
+  height: number,
+  options: Pick<ProcessOptions, "background">,
+) => outputMimeType(
+  type,
+  !options.background && ALPHA_TYPES.includes(type) && !!context && hasTransparency(context, width, height),
+);
+
+const hasTransparency = (context: Context2D, width: number, height: number) => {
+  const { data } = context.getImageData(0, 0, width, height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+/**
+ * Draws `image` scaled into a context already sized to the target, which is
+ * `width`×`height` after turning the image upright for `orientation` and
+ * applying `edits`, over `background` if given.
+ */
+export const drawScaled = (
+  context: Context2D | null,
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+  { orientation = 1, background, edits }: Pick<ProcessOptions, "orientation" | "background" | "edits"> = {},
+) => {
+  if (!context) throw new Error("Canvas not supported in this browser.");
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = "high";
+
+  // The canvas shows the crop box of the upright image once turned and
+  // flipped around its centre.
+  let upright = { width, height };
+  if (edits) {
+    const { cropBox, quarterTurns } = edits;
+    const turned = { width: width / cropBox.width, height: height / cropBox.height };
+    upright = quarterTurns % 2 ? { width: turned.height, height: turned.width } : turned;
+    context.translate(turned.width * (0.5 - cropBox.x), turned.height * (0.5 - cropBox.y));
+    context.scale(edits.flipHorizontal ? -1 : 1, edits.flipVertical ? -1 : 1);
+    context.rotate((quarterTurns * Math.PI) / 2);
+    context.translate(-upright.width / 2, -upright.height / 2);
+  }
+
+  const transforms: Record<number, [number, number, number, number, number, number]> = {
+    2: [-1, 0, 0, 1, upright.width, 0],
+    3: [-1, 0, 0, -1, upright.width, upright.height],
+    4: [1, 0, 0, -1, 0, upright.height],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, upright.width, 0],
+    7: [0, -1, -1, 0, upright.width, upright.height],
+    8: [0, -1, 1, 0, 0, upright.height],
+  };
+  const transform = transforms[orientation];
+  if (transform) context.transform(...transform);
+  const drawn = orientedSize(upright.width, upright.height, orientation);
+  context.drawImage(image, 0, 0, drawn.width, drawn.height);
+
+  if (edits && changesTones(edits)) {
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    const pixels = context.getImageData(0, 0, width, height);
+    adjustTones(pixels.data, edits);
+    context.putImageData(pixels, 0, 0);
+  }
+};
@@ -0,0 +1,55 @@
+import { UploadItem } from "./types";
+
+export type SortMode = "name" | "size" | "lastModified" | "capturedAt" | "camera";
+
+export const SORT_MODES: Record<SortMode, string> = {
+  name: "Nome",
+  size: "Dimensione",
+  lastModified: "Ultima modifica",
+  capturedAt: "Data scatto",
+  camera: "Fotocamera",
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+const compareBy: Record<SortMode, (a: UploadItem, b: UploadItem) => number> = {
+  name: (a, b) => collator.compare(a.name, b.name),
+  size: (a, b) => a.size - b.size,
+  lastModified: (a, b) => a.file.lastModified - b.file.lastModified,
+  // Images without a capture date go last.
+  capturedAt: (a, b) =>
+    (a.capturedAt ?? Number.POSITIVE_INFINITY) - (b.capturedAt ?? Number.POSITIVE_INFINITY) || 0,
+  // Grouped by camera, then by capture date; unknown cameras go last.
+  camera: (a, b) =>
+    (a.camera === undefined ? 1 : 0) - (b.camera === undefined ? 1 : 0) ||
+    collator.compare(a.camera ?? "", b.camera ?? "") ||
+    compareBy.capturedAt(a, b),
+};
+
+/**
+ * Returns a sorted copy; ties keep their current relative order. Images are
+ * sorted within their section, and each section keeps its title on its new
+ * first image.
+ */
+export const sortUploads = (uploads: UploadItem[], mode: SortMode) => {
+  const sections: UploadItem[][] = [];
+  uploads.forEach((upload, index) => {
+    if (index === 0 || upload.section !== undefined) sections.push([]);
+    sections[sections.length - 1].push(upload);
+  });
+  return sections.flatMap((section) => {
+    const title = section[0].section;
+    const sorted = section
+      .map((upload) => (upload.section === undefined ? upload : { ...upload, section: undefined }))
+      .sort(compareBy[mode]);
+    return title === undefined ? sorted : [{ ...sorted[0], section: title }, ...sorted.slice(1)];
+  });
+};
+
+export const moveItem = <T,>(items: T[], from: number, to: number) => {
+  if (from === to || from < 0 || from >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, item);
+  return next;
+};
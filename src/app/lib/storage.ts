@@ -0,0 +1,130 @@
+import { PdfSettings, UploadItem } from "./types";
+import { DEFAULT_SETTINGS } from "./constants";
+
+// Projects and settings presets are kept in IndexedDB, which stores File
+// objects as they are.
+
+export type StoredUpload = Omit<UploadItem, "previewUrl" | "error">;
+
+export type Preset = {
+  id: string;
+  name: string;
+  settings: PdfSettings;
+};
+
+export type StoredProject = {
+  id: string;
+  name: string;
+  updatedAt: number;
+  settings: PdfSettings;
+  uploads: StoredUpload[];
+  /** Existing PDFs merged with the generated pages; missing in older projects. */
+  mergePdfs?: File[];
+};
+
+const DB_NAME = "glue-pictures";
+const DB_VERSION = 2;
+const PROJECTS = "projects";
+const PRESETS = "presets";
+const META = "meta";
+const LAST_PROJECT_KEY = "lastProjectId";
+const DEFAULT_PRESET_KEY = "defaultPresetId";
+
+let database: Promise<IDBDatabase> | undefined;
+
+const openDatabase = () => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+      if (!db.objectStoreNames.contains(PRESETS)) db.createObjectStore(PRESETS, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = undefined;
+      reject(request.error);
+    };
+  });
+  return database;
+};
+
+const run = async <T,>(
+  store: string,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/** Settings saved by older versions lack newer fields. */
+export const withDefaults = <T extends { settings: PdfSettings },>(record: T): T => ({
+  ...record,
+  settings: { ...DEFAULT_SETTINGS, ...record.settings },
+});
+
+export const listProjects = async () =>
+  (await run<StoredProject[]>(PROJECTS, "readonly", (store) => store.getAll()))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+export const loadProject = async (id: string) => {
+  const project = await run<StoredProject | undefined>(PROJECTS, "readonly", (store) => store.get(id));
+  return project && withDefaults(project);
+};
+
+export const saveProject = (project: StoredProject) =>
+  run(PROJECTS, "readwrite", (store) => store.put(project));
+
+export const deleteProject = (id: string) =>
+  run(PROJECTS, "readwrite", (store) => store.delete(id));
+
+export const getLastProjectId = () =>
+  run<string | undefined>(META, "readonly", (store) => store.get(LAST_PROJECT_KEY));
+
+export const setLastProjectId = (id: string) =>
+  run(META, "readwrite", (store) => store.put(id, LAST_PROJECT_KEY));
+
+export const listPresets = async () =>
+  (await run<Preset[]>(PRESETS, "readonly", (store) => store.getAll()))
+    .map(withDefaults)
+    .sort((a, b) => a.name.localeCompare(b.name, "it"));
+
+export const savePreset = (preset: Preset) =>
+  run(PRESETS, "readwrite", (store) => store.put(preset));
+
+export const deletePreset = (id: string) =>
+  run(PRESETS, "readwrite", (store) => store.delete(id));
+
+export const getDefaultPresetId = () =>
+  run<string | undefined>(META, "readonly", (store) => store.get(DEFAULT_PRESET_KEY));
+
+export const setDefaultPresetId = (id: string | undefined) =>
+  id
+    ? run(META, "readwrite", (store) => store.put(id, DEFAULT_PRESET_KEY))
+    : run(META, "readwrite", (store) => store.delete(DEFAULT_PRESET_KEY));
+
+/** Settings new projects start from: the default preset, if any. */
+export const loadDefaultSettings = async () => {
+  const id = await getDefaultPresetId();
+  const preset = id && await run<Preset | undefined>(PRESETS, "readonly", (store) => store.get(id));
+  return preset ? withDefaults(preset).settings : DEFAULT_SETTINGS;
+};
+
+/** Drops what only makes sense in the current page: object URLs and build errors. */
+export const toStoredUpload = (upload: UploadItem): StoredUpload => {
+  const stored: Partial<UploadItem> = { ...upload };
+  delete stored.previewUrl;
+  delete stored.error;
+  return stored as StoredUpload;
+};
+
+export const fromStoredUpload = (upload: StoredUpload): UploadItem => ({
+  ...upload,
+  previewUrl: URL.createObjectURL(upload.file),
+});
@@ -0,0 +1,66 @@
+import { TextStyle } from "./types";
+
+/** Width in pt of `text` rendered with `style`. */
+export type TextMeasurer = (text: string, style: TextStyle) => number;
+
+export const ELLIPSIS = "…";
+
+/** Rough average glyph width, good enough outside the browser and PDF writer. */
+export const approximateMeasure: TextMeasurer = (text, style) =>
+  Array.from(text).length * style.size * 0.5;
+
+/**
+ * Greedy word wrap to `maxWidth`. Words longer than a line are broken by
+ * character; text that needs more than `maxLines` lines is cut and the last
+ * line ends with an ellipsis.
+ */
+export const wrapText = (
+  text: string,
+  maxWidth: number,
+  style: TextStyle,
+  measure: TextMeasurer,
+  maxLines: number,
+): string[] => {
+  const fits = (line: string) => measure(line, style) <= maxWidth;
+  const lines: string[] = [];
+
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (fits(candidate)) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = "";
+      for (const char of Array.from(word)) {
+        if (line && !fits(line + char)) {
+          lines.push(line);
+          line = "";
+        }
+        line += char;
+      }
+    }
+    if (line) lines.push(line);
+  }
+
+  if (lines.length <= maxLines) return lines;
+
+  const kept = lines.slice(0, Math.max(1, maxLines));
+  kept[kept.length - 1] = truncate(kept[kept.length - 1], maxWidth, style, measure);
+  return kept;
+};
+
+const truncate = (
+  line: string,
+  maxWidth: number,
+  style: TextStyle,
+  measure: TextMeasurer,
+) => {
+  const chars = Array.from(line);
+  while (chars.length && measure(chars.join("") + ELLIPSIS, style) > maxWidth) {
+    chars.pop();
+  }
+  return chars.join("").trimEnd() + ELLIPSIS;
+};
@@ -1,11 +1,271 @@
+export type GeoPoint = { latitude: number; longitude: number };
+
 export type UploadItem = {
     id: string;
     file: File;
     previewUrl: string;
     name: string;
     size: number;
+    width: number;
+    height: number;
+    /** EXIF capture time (ms since epoch), when available. */
+    capturedAt?: number;
+    /** EXIF orientation (1–8); width and height are already upright. */
+    orientation?: number;
+    /** Camera make and model from EXIF. */
+    camera?: string;
+    /** EXIF GPS position, in decimal degrees. */
+    location?: GeoPoint;
+    /** Folder of the file when a whole directory was selected. */
+    folder?: string;
+    /** Caption typed by the user; replaces the automatic one when not blank. */
+    caption?: string;
+    /** Overrides the document scale mode for this image. */
+    scaleMode?: ScaleMode;
+    /** Focal point and zoom used by the manual crop mode. */
+    crop?: CropSettings;
+    /** Starts a new page, whatever room is left on the previous one. */
+    pageBreak?: boolean;
+    /** Grid cells the image takes, columns × rows; one when missing. */
+    span?: CellSpan;
+    /** Turns, flips, trimming and tone changes applied when the image is processed. */
+    edits?: ImageEdits;
+    /** Starts a section with this title; it runs until the next image that starts one. */
+    section?: string;
+    /** Why the image was skipped by the last build, if it was. */
+    error?: string;
 };
 
-export type PagePresetKey = "a4" | "letter";
+/** Part of an image to keep, as fractions of its sides from the top-left corner. */
+export type CropBox = { x: number; y: number; width: number; height: number };
+
+/** Non-destructive changes to an upright image, applied in this order. */
+export type ImageEdits = {
+    /** Quarter turns clockwise. */
+    quarterTurns: number;
+    flipHorizontal: boolean;
+    flipVertical: boolean;
+    /** Taken from the turned and flipped image. */
+    cropBox: CropBox;
+    grayscale: boolean;
+    /** Percentages; 100 leaves the image as it is. */
+    brightness: number;
+    contrast: number;
+};
+
+export type PagePresetKey =
+    | "a3"
+    | "a4"
+    | "a5"
+    | "b5"
+    | "letter"
+    | "legal"
+    | "tabloid"
+    | "photo-10x15"
+    | "photo-13x18";
+
+/** A preset, or a free width/height entered by the user. */
+export type PageSizeKey = PagePresetKey | "custom";
+
+export type PageOrientation = "portrait" | "landscape";
+
+export type LengthUnit = "mm" | "in";
 
 export type DrawableImage = ImageBitmap | HTMLImageElement;
+
+export type FontFamily = "helvetica" | "noto-sans" | "custom";
+
+export type TextStyle = {
+    family: FontFamily;
+    size: number;
+};
+
+export type TextAlign = "left" | "center" | "right";
+
+export type MarginBand = "header" | "footer";
+
+/** Header or footer slot the logo goes in, or "none" to keep it for the cover only. */
+export type LogoPosition = `${MarginBand}-${TextAlign}` | "none";
+
+/** How `{page}` and `{pages}` are written: 3, iii or III. */
+export type PageNumberFormat = "arabic" | "roman" | "roman-upper";
+
+/** Proofing mark: a line of text or an image, drawn over the pages. */
+export type WatermarkKind = "none" | "text" | "image";
+
+/** Once in the middle of each page, or tiled over each image. */
+export type WatermarkRepeat = "page" | "image";
+
+export type CaptionMode = "none" | "filename" | "template";
+
+export type CaptionPosition = "below" | "above" | "overlay";
+
+/** Whether the grid fills a row before moving down, or a column before moving across. */
+export type GridFillOrder = "rows" | "columns";
+
+/** Where the rows of a page sit: at the top, centred or spread over the page. */
+export type GridVerticalAlign = "top" | "center" | "distribute";
+
+/** Columns × rows an image takes in the grid layout. */
+export type CellSpan = "1x1" | "2x1" | "1x2" | "2x2";
+
+/** Width:height of grid cells, picked from the images or stretched to the page. */
+export type CellAspect =
+    | "1:1"
+    | "4:3"
+    | "3:4"
+    | "3:2"
+    | "2:3"
+    | "16:9"
+    | "9:16"
+    | "auto"
+    | "fill-page";
+
+export type LayoutMode = "grid" | "justified" | "masonry" | "print";
+
+/** Photo print size for the "print" layout, or a free width/height. */
+export type PrintSizeKey = "10x15" | "9x13" | "13x18" | "15x20" | "passport" | "custom";
+
+/** Guides for trimming prints: lines across the sheet or marks at the corners. */
+export type CutMarks = "none" | "lines" | "corners";
+
+export type ScaleMode = "fit" | "fill" | "crop";
+
+export type CropSettings = {
+    /** Focal point in image coordinates, 0–1 from the top-left corner. */
+    x: number;
+    y: number;
+    /** 1 covers the cell exactly; larger values zoom in. */
+    zoom: number;
+};
+
+/**
+ * "dpi" resamples each image to its printed size at `targetDpi`; "target"
+ * picks resolution and quality to stay under `targetSizeMB`.
+ */
+export type SizeMode = "manual" | "dpi" | "target";
+
+/** Where sections begin: wherever they fall, on a new page, or after a title page. */
+export type SectionBreak = "none" | "page" | "title";
+
+/** Where the generated pages go among the pages of existing PDFs. */
+export type MergePosition = "before" | "after" | "at";
+
+/** "new" decorates and numbers only generated pages; "continue" the whole merged document. */
+export type MergeNumbering = "new" | "continue";
+
+/** What happens to transparent areas: kept as PNG alpha or filled with a colour. */
+export type TransparencyMode = "keep" | "flatten";
+
+export type PdfSettings = {
+    pageSize: PageSizeKey;
+    orientation: PageOrientation;
+    /** Custom page size in mm, used when `pageSize` is "custom". */
+    customPageWidth: number;
+    customPageHeight: number;
+    /** Unit margins, gutter and custom sizes are entered in; values are stored in mm. */
+    lengthUnit: LengthUnit;
+    layoutMode: LayoutMode;
+    columns: number;
+    verticalPadding: number;
+    leftPadding: number;
+    rightPadding: number;
+    /** Swaps left and right margins on even pages, which become inner and outer ones. */
+    mirrorMargins: boolean;
+    gutter: number;
+    sizeMode: SizeMode;
+    targetSizeMB: number;
+    targetDpi: number;
+    maxSide: number;
+    jpegQuality: number;
+    transparency: TransparencyMode;
+    /** Hex colour used when `transparency` is "flatten". */
+    backgroundColor: string;
+    fileName: string;
+    /** Centre slot of the header; `headerLeft` and `headerRight` are the side ones. */
+    headerText: string;
+    headerLeft: string;
+    headerRight: string;
+    /** Centre slot of the footer. */
+    footerText: string;
+    footerLeft: string;
+    footerRight: string;
+    startingPageNumber: number;
+    pageNumberFormat: PageNumberFormat;
+    logo?: File;
+    logoPosition: LogoPosition;
+    captionStyle: TextStyle;
+    headerStyle: TextStyle;
+    footerStyle: TextStyle;
+    customFont?: File;
+    captionMode: CaptionMode;
+    captionTemplate: string;
+    captionPosition: CaptionPosition;
+    captionAlign: TextAlign;
+    captionMaxLines: number;
+    /** Adds a line with EXIF capture date and coordinates under each caption. */
+    showExifInfo: boolean;
+    cellAspect: CellAspect;
+    fillOrder: GridFillOrder;
+    rightToLeft: boolean;
+    /** Centres a last row with fewer images than columns. */
+    centerLastRow: boolean;
+    verticalAlign: GridVerticalAlign;
+    /** At most this many grid rows on a page; 0 for as many as fit. */
+    maxRowsPerPage: number;
+    scaleMode: ScaleMode;
+    /** Turns every image to grayscale, for black-and-white printing. */
+    grayscale: boolean;
+    printSize: PrintSizeKey;
+    /** Print size in mm, used when `printSize` is "custom". */
+    customPrintWidth: number;
+    customPrintHeight: number;
+    /** How far, in mm, prints extend past their cut edges. */
+    printBleed: number;
+    cutMarks: CutMarks;
+    sectionBreak: SectionBreak;
+    /** Adds a clickable table of contents listing the sections. */
+    tableOfContents: boolean;
+    coverPage: boolean;
+    /** Printed on the cover and stored in the PDF document info. */
+    documentTitle: string;
+    documentSubtitle: string;
+    documentAuthor: string;
+    /** Cover date as `YYYY-MM-DD`; today when empty. */
+    documentDate: string;
+    documentSubject: string;
+    /** Comma-separated. */
+    documentKeywords: string;
+    /** Upload shown large on the cover. */
+    coverImageId?: string;
+    /** Whether the cover counts as the first numbered page. */
+    numberCover: boolean;
+    mergePosition: MergePosition;
+    /** Page of the merged document the generated pages start on, when `mergePosition` is "at". */
+    mergePage: number;
+    mergeNumbering: MergeNumbering;
+    watermark: WatermarkKind;
+    watermarkText: string;
+    /** Font of the text; its size is also the height of an image watermark. */
+    watermarkStyle: TextStyle;
+    /** Image watermark; the logo is used when missing. */
+    watermarkImage?: File;
+    /** Hex colour of the text. */
+    watermarkColor: string;
+    /** Degrees, counterclockwise. */
+    watermarkRotation: number;
+    /** 0–1. */
+    watermarkOpacity: number;
+    watermarkRepeat: WatermarkRepeat;
+};
+
+export type BuildProgress = {
+    /** Images processed and embedded so far. */
+    done: number;
+    total: number;
+    /** Original file sizes of the processed images. */
+    bytesDone: number;
+    bytesTotal: number;
+    /** Time spent since the build started, in ms. */
+    elapsed: number;
+};
@@ -1,2 +1,23 @@
+import { LengthUnit } from "./types";
+
 export const formatMB = (bytes: number) =>
-  `${(bytes / 1024 / 1024).toFixed(1)} MB`.replace("NaN", "0.0 MB");
+  `${(Number.isFinite(bytes) ? bytes / 1024 / 1024 : 0).toFixed(1)} MB`;
+
+export const MM_PER_INCH = 25.4;
+
+export const PT_PER_MM = 72 / MM_PER_INCH;
+
+export const mmToPt = (mm: number) => mm * PT_PER_MM;
+
+/** Converts a length stored in mm to the unit shown to the user. */
+export const fromMm = (mm: number, unit: LengthUnit) =>
+  unit === "in" ? mm / MM_PER_INCH : mm;
+
+export const toMm = (value: number, unit: LengthUnit) =>
+  unit === "in" ? value * MM_PER_INCH : value;
+
+/** Rounded for display: whole mm or hundredths of an inch. */
+export const formatLength = (mm: number, unit: LengthUnit) =>
+  unit === "in"
+    ? `${Number(fromMm(mm, unit).toFixed(2))} in`
+    : `${Math.round(mm)} mm`;
@@ -0,0 +1,120 @@
+import { downscaleForPdf } from "./images";
+import { ProcessedImage, ProcessOptions } from "./processing";
+import type { WorkerRequest, WorkerResponse } from "./image.worker";
+
+export type ImagePool = {
+  /** Number of images processed at the same time. */
+  concurrency: number;
+  process: (file: File, options: ProcessOptions) => Promise<ProcessedImage>;
+  /** Stops all workers and rejects queued and running jobs. */
+  terminate: () => void;
+};
+
+type Job = {
+  id: number;
+  file: File;
+  options: ProcessOptions;
+  resolve: (value: ProcessedImage) => void;
+  reject: (reason: unknown) => void;
+};
+
+export const defaultConcurrency = () =>
+  Math.max(1, Math.min(4, (typeof navigator !== "undefined" && navigator.hardwareConcurrency) || 2));
+
+const supportsWorkers = () =>
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  typeof createImageBitmap === "function";
+
+export const abortError = () => new DOMException("Generazione annullata.", "AbortError");
+
+/**
+ * Resizes images in a pool of Web Workers. Browsers without OffscreenCanvas
+ * fall back to the main thread, one image at a time.
+ */
+export const createImagePool = (size = defaultConcurrency()): ImagePool =>
+  supportsWorkers() ? createWorkerPool(size) : createMainThreadPool();
+
+const createWorkerPool = (size: number): ImagePool => {
+  const queue: Job[] = [];
+  const running = new Map<Worker, Job>();
+  const idle: Worker[] = [];
+  let nextId = 0;
+  let terminated = false;
+
+  const spawn = () => {
+    const worker = new Worker(new URL("./image.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const job = running.get(worker);
+      running.delete(worker);
+      if (job && job.id === event.data.id) {
+        if ("error" in event.data) {
+          job.reject(new Error(event.data.error));
+        } else {
+          const { bytes, width, height, mimeType } = event.data;
+          job.resolve({ bytes: new Uint8Array(bytes), width, height, mimeType });
+        }
+      }
+      idle.push(worker);
+      pump();
+    };
+    worker.onerror = (event) => {
+      const job = running.get(worker);
+      running.delete(worker);
+      job?.reject(new Error(event.message || "Worker error."));
+      worker.terminate();
+      pump();
+    };
+    return worker;
+  };
+
+  const pump = () => {
+    while (!terminated && queue.length) {
+      const worker = idle.pop() ?? (running.size < size ? spawn() : undefined);
+      if (!worker) return;
+      const job = queue.shift()!;
+      running.set(worker, job);
+      const request: WorkerRequest = { id: job.id, file: job.file, options: job.options };
+      worker.postMessage(request);
+    }
+  };
+
+  return {
+    concurrency: size,
+    process: (file, options) =>
+      new Promise<ProcessedImage>((resolve, reject) => {
+        if (terminated) {
+          reject(abortError());
+          return;
+        }
+        queue.push({ id: nextId++, file, options, resolve, reject });
+        pump();
+      }),
+    terminate: () => {
+      terminated = true;
+      const jobs = [...queue.splice(0), ...running.values()];
+      [...running.keys(), ...idle.splice(0)].forEach((worker) => worker.terminate());
+      running.clear();
+      jobs.forEach((job) => job.reject(abortError()));
+    },
+  };
+};
+
+const createMainThreadPool = (): ImagePool => {
+  let terminated = false;
+  let chain: Promise<unknown> = Promise.resolve();
+  return {
+    concurrency: 1,
+    process: (file, options) => {
+      const result = chain.then(() => {
+        if (terminated) throw abortError();
+        return downscaleForPdf(file, options);
+      });
+      chain = result.catch(() => undefined);
+      return result;
+    },
+    terminate: () => {
+      terminated = true;
+    },
+  };
+};
@@ -1,15 +1,21 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import styles from "./page.module.css";
-import { UploadItem } from "./lib/types";
+import { PdfSettings, UploadItem } from "./lib/types";
+import { DEFAULT_SETTINGS } from "./lib/constants";
+import { moveItem, SortMode, sortUploads } from "./lib/sort";
+import { probeImage } from "./lib/pdf";
 import { GridPreview } from "./components/GridPreview";
 import { SettingsPanel } from "./components/SettingsPanel";
 import { MainHeader } from "./components/MainHeader";
+import { ProjectPanel } from "./components/ProjectPanel";
+import { fromStoredUpload, StoredProject } from "./lib/storage";
 
 export default function Home() {
   const [uploads, setUploads] = useState<UploadItem[]>([]);
-  const [columns, setColumns] = useState(3);
+  const [settings, setSettings] = useState<PdfSettings>(DEFAULT_SETTINGS);
+  const [mergePdfs, setMergePdfs] = useState<File[]>([]);
   const uploadsRef = useRef<UploadItem[]>([]);
 
   useEffect(() => {
@@ -35,24 +41,80 @@ export default function Home() {
     });
   };
 
+  const moveImage = (id: string, toIndex: number) => {
+    setUploads((current) =>
+      moveItem(current, current.findIndex((item) => item.id === id), toIndex),
+    );
+  };
+
+  const updateImage = (id: string, patch: Partial<UploadItem>) => {
+    setUploads((current) =>
+      current.map((item) => (item.id === id ? { ...item, ...patch } : item)),
+    );
+  };
+
+  const retryImage = async (id: string) => {
+    const target = uploadsRef.current.find((item) => item.id === id);
+    if (!target) return;
+    updateImage(id, { error: await probeImage(target, settings) });
+  };
+
+  const removeFailed = () => {
+    setUploads((current) => {
+      current
+        .filter((item) => item.error)
+        .forEach((item) => URL.revokeObjectURL(item.previewUrl));
+      return current.filter((item) => !item.error);
+    });
+  };
+
+  const sortImages = (mode: SortMode) => {
+    setUploads((current) => sortUploads(current, mode));
+  };
+
+  const openProject = (project: StoredProject) => {
+    uploadsRef.current.forEach((upload) => URL.revokeObjectURL(upload.previewUrl));
+    setUploads(project.uploads.map(fromStoredUpload));
+    setMergePdfs(project.mergePdfs ?? []);
+    setSettings(project.settings);
+  };
+
+  const updateSettings = useCallback((patch: Partial<PdfSettings>) =>
+    setSettings((current) => ({ ...current, ...patch })), []);
+
   const gridPreviewColumns = useMemo(() => {
-    return Math.min(columns, 6);
-  }, [columns]);
+    return Math.min(settings.columns, 6);
+  }, [settings.columns]);
 
   return (
     <div className={styles.page}>
       <main className={styles.main}>
         <MainHeader />
+        <ProjectPanel
+          uploads={uploads}
+          mergePdfs={mergePdfs}
+          settings={settings}
+          openProject={openProject}
+          updateSettings={updateSettings} />
         <SettingsPanel
           uploads={uploads}
           setUploads={setUploads}
-          columns={columns}
-          setColumns={setColumns}
+          mergePdfs={mergePdfs}
+          setMergePdfs={setMergePdfs}
+          settings={settings}
+          updateSettings={updateSettings}
         />
         <GridPreview
           uploads={uploads}
+          settings={settings}
+          mergePdfs={mergePdfs}
           gridPreviewColumns={gridPreviewColumns}
           removeImage={removeImage}
+          moveImage={moveImage}
+          updateImage={updateImage}
+          retryImage={retryImage}
+          removeFailed={removeFailed}
+          sortImages={sortImages}
         />
       </main>
     </div>